@@ -3,6 +3,7 @@ import {
   GlobalTTSSettings,
   TTSProvider,
   ChapterAudioOptions,
+  AudioFormat,
 } from "./types";
 import { googleTTSConfig } from "./providers/google";
 import { openaiTTSConfig } from "./providers/openai";
@@ -24,9 +25,44 @@ export class ConfigManager {
       silence_detection: true,
       auto_split_chapters: true,
     },
+    output_formats: {
+      // Small files for phones: speech stays clear at 32k mono
+      "opus-mobile": {
+        format: "opus",
+        codec: "opus",
+        sample_rate: 24000,
+        bit_rate: "32k",
+        channels: 1,
+        extension: "opus",
+      },
+      // For players without Opus support
+      "mp3-mobile": {
+        format: "mp3",
+        codec: "mp3",
+        sample_rate: 22050,
+        bit_rate: "48k",
+        channels: 1,
+        extension: "mp3",
+      },
+    },
+    narration: {
+      skip_roles: [
+        "cover",
+        "title-page",
+        "copyright",
+        "dedication",
+        "toc",
+        "acknowledgements",
+        "also-by",
+        "notes",
+        "bibliography",
+        "index",
+      ],
+    },
     text_processing: {
       clean_markdown: true,
-      remove_footnotes: true,
+      footnotes: "skip",
+      read_image_alt_text: false,
       normalize_whitespace: true,
       sentence_splitting: true,
       paragraph_splitting: false,
@@ -111,6 +147,38 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * Resolve a `--format` value to an audio format: one of the provider's
+   * supported formats (by format, codec or extension, so "wav" finds
+   * "audio/wav") or a named output format from the global settings
+   */
+  static resolveOutputFormat(
+    provider: TTSProvider,
+    format?: string
+  ): AudioFormat {
+    const config = this.getProviderConfig(provider);
+    const wanted = (format || config.default_settings.format).toLowerCase();
+
+    const supported = [
+      config.audio.default_format,
+      ...config.audio.supported_formats,
+    ];
+    const match =
+      supported.find((f) => f.format.toLowerCase() === wanted) ||
+      supported.find((f) => f.extension === wanted) ||
+      supported.find((f) => f.codec === wanted) ||
+      this.globalSettings.output_formats[wanted];
+    if (!match) {
+      throw new Error(
+        `Unknown audio format '${format}' for ${provider}. Use one of: ${[
+          ...new Set(supported.map((f) => f.extension)),
+          ...Object.keys(this.globalSettings.output_formats),
+        ].join(", ")}`
+      );
+    }
+    return match;
+  }
+
   /**
    * Get audio output directory for a provider and book
    */
@@ -213,6 +281,8 @@ export class ConfigManager {
       chunk_size: options.chunk_size || config.processing.max_chunk_size,
       rate_limit_delay:
         options.rate_limit_delay || config.processing.rate_limit_delay,
+      skip_roles:
+        options.skip_roles || this.globalSettings.narration.skip_roles,
     };
   }
 
@@ -112,17 +112,31 @@ export interface TTSProviderConfig {
 export interface GlobalTTSSettings {
   default_provider: string;
   output_directory_structure: "provider-first" | "book-first";
+  // Applied to every chapter after generation (see audio-processing.ts)
   audio_processing: {
+    // Two-pass EBU R128 loudness normalization to target_volume_db
     normalize_volume: boolean;
+    // Integrated loudness in LUFS (-23 is the EBU R128 broadcast level)
     target_volume_db: number;
     fade_in_ms: number;
     fade_out_ms: number;
+    // Trim leading and trailing silence
     silence_detection: boolean;
     auto_split_chapters: boolean;
   };
+  // Output formats any provider's audio can be transcoded to, by name
+  // (`--format opus-mobile`), on top of each provider's supported_formats
+  output_formats: Record<string, AudioFormat>;
+  narration: {
+    // Section roles (from toc.yml) that are converted but never voiced
+    skip_roles: SectionRole[];
+  };
   text_processing: {
     clean_markdown: boolean;
-    remove_footnotes: boolean;
+    // Markdown footnotes ([^n]): dropped, read where referenced, or read after the chapter
+    footnotes: "skip" | "inline" | "end-of-chapter";
+    // Speak image alt text ("Image: ...") instead of dropping images
+    read_image_alt_text: boolean;
     normalize_whitespace: boolean;
     sentence_splitting: boolean;
     paragraph_splitting: boolean;
@@ -147,6 +161,30 @@ export interface ProviderStorageConfig {
 
 export type TTSProvider = "google" | "openai" | "elevenlabs";
 
+export type SectionRole =
+  | "cover"
+  | "title-page"
+  | "copyright"
+  | "dedication"
+  | "epigraph"
+  | "toc"
+  | "foreword"
+  | "preface"
+  | "introduction"
+  | "prologue"
+  | "part"
+  | "chapter"
+  | "epilogue"
+  | "afterword"
+  | "acknowledgements"
+  | "also-by"
+  | "about-author"
+  | "notes"
+  | "bibliography"
+  | "glossary"
+  | "appendix"
+  | "index";
+
 export interface ChapterAudioOptions {
   provider?: TTSProvider;
   voice?: string;
@@ -155,4 +193,5 @@ export interface ChapterAudioOptions {
   force_regenerate?: boolean;
   chunk_size?: number;
   rate_limit_delay?: number;
+  skip_roles?: SectionRole[];
 }
@@ -0,0 +1,363 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import ffmpeg from "fluent-ffmpeg";
+import chalk from "chalk";
+import { Command } from "commander";
+import { SectionRole, TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import {
+  audioDuration,
+  audioStreamFormat,
+  AudioStreamFormat,
+  escapeMetadata,
+  listChapterAudio,
+  runFfmpeg,
+} from "./audio-files";
+import { writeConcatList } from "./audio-merge";
+import { BookMetadata } from "./book-metadata";
+
+interface Chapter {
+  id: string;
+  title: string;
+  order: number;
+  filename: string;
+  part?: string;
+  role?: SectionRole;
+}
+
+interface AssembleOptions {
+  // Voice the chapters were generated with; defaults to the provider's
+  voice?: string;
+  // Overrides the narrator tag built from the voice
+  narrator?: string;
+  // One M4B per part in toc.yml instead of one for the whole book
+  splitParts?: boolean;
+  // AAC bit rate
+  bitrate?: string;
+}
+
+interface AssembleCliOptions {
+  provider: TTSProvider;
+  voice?: string;
+  narrator?: string;
+  splitParts?: boolean;
+  bitrate: string;
+}
+
+interface AudiobookChapter {
+  title: string;
+  file: string;
+  duration: number;
+}
+
+interface Volume {
+  part?: string;
+  chapters: AudiobookChapter[];
+}
+
+function describeStreamFormat(format: AudioStreamFormat): string {
+  return `${format.codec}, ${format.sampleRate}Hz, ${format.channels}ch`;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+class AudiobookAssembler {
+  private bookDir: string;
+  private provider: TTSProvider;
+  private options: AssembleOptions;
+
+  constructor(
+    bookDir: string,
+    provider: TTSProvider,
+    options: AssembleOptions = {}
+  ) {
+    this.bookDir = path.resolve(bookDir);
+    this.provider = provider;
+    this.options = options;
+  }
+
+  /**
+   * Merge the provider's chapter audio in toc.yml order into M4B files with
+   * chapter markers, cover art and tags. Returns the files written.
+   */
+  async assemble(): Promise<string[]> {
+    const metadataPath = path.join(this.bookDir, "metadata.yml");
+    const tocPath = path.join(this.bookDir, "toc.yml");
+    if (
+      !(await fs.pathExists(metadataPath)) ||
+      !(await fs.pathExists(tocPath))
+    ) {
+      throw new Error(
+        `Book metadata or TOC not found in ${this.bookDir}\nRun conversion first with: npm run convert`
+      );
+    }
+
+    const metadata: BookMetadata = YAML.parse(
+      await fs.readFile(metadataPath, "utf-8")
+    );
+    const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+    const chapters: Chapter[] = toc.chapters || [];
+    const audio = await listChapterAudio(this.bookDir, this.provider);
+    if (audio.size === 0) {
+      throw new Error(
+        `No ${this.provider} chapter audio in ${this.bookDir}\nGenerate it first with: npm run chapter-audio generate`
+      );
+    }
+
+    // Sections that are normally voiced but have no audio yet
+    const { skip_roles } = ConfigManager.getGlobalSettings().narration;
+    const missing = chapters.filter(
+      (chapter) =>
+        !audio.has(chapter.order) &&
+        !(chapter.role && skip_roles.includes(chapter.role))
+    );
+    if (missing.length > 0) {
+      console.warn(
+        chalk.yellow(
+          `⚠️  ${missing.length} chapter${
+            missing.length === 1 ? " has" : "s have"
+          } no ${this.provider} audio and will be left out: ${missing
+            .map((chapter) => chapter.order)
+            .join(", ")}`
+        )
+      );
+    }
+
+    // The concat demuxer reads the files as one stream, so a file in another
+    // format would throw off the chapter markers laid out below
+    const formats = new Map<string, AudioStreamFormat>();
+    for (const chapter of chapters) {
+      const file = audio.get(chapter.order);
+      if (file) formats.set(file, await audioStreamFormat(file));
+    }
+    const [first, ...rest] = Array.from(formats.entries());
+    const mismatched = rest.filter(
+      ([, format]) =>
+        describeStreamFormat(format) !== describeStreamFormat(first[1])
+    );
+    if (mismatched.length > 0) {
+      throw new Error(
+        `Chapter audio must share one format, but ${path.basename(
+          first[0]
+        )} is ${describeStreamFormat(first[1])} and ${mismatched
+          .map(
+            ([file, format]) =>
+              `${path.basename(file)} is ${describeStreamFormat(format)}`
+          )
+          .join(", ")}\nRegenerate these chapters in the same format first`
+      );
+    }
+
+    const volumes: Volume[] = [];
+    for (const chapter of chapters) {
+      const file = audio.get(chapter.order);
+      if (!file) continue;
+
+      const duration = await audioDuration(file);
+      if (duration === null) {
+        throw new Error(`Could not read the duration of ${file}`);
+      }
+
+      // Front matter joins the first part, back matter stays in the last
+      let volume = volumes[volumes.length - 1];
+      if (
+        !volume ||
+        (this.options.splitParts &&
+          chapter.part &&
+          volume.part &&
+          chapter.part !== volume.part)
+      ) {
+        volume = { part: chapter.part, chapters: [] };
+        volumes.push(volume);
+      }
+      volume.part = volume.part || chapter.part;
+      volume.chapters.push({ title: chapter.title, file, duration });
+    }
+
+    const audioDir = ConfigManager.getAudioOutputDir(
+      this.bookDir,
+      this.provider
+    );
+    const slug = path.basename(this.bookDir);
+    const outputs: string[] = [];
+    for (let i = 0; i < volumes.length; i++) {
+      const outputPath = path.join(
+        audioDir,
+        volumes.length > 1
+          ? `${slug}-part-${String(i + 1).padStart(2, "0")}.m4b`
+          : `${slug}.m4b`
+      );
+      const title =
+        volumes.length > 1 && volumes[i].part
+          ? `${metadata.title} — ${volumes[i].part}`
+          : metadata.title;
+
+      const count = volumes[i].chapters.length;
+      const seconds = volumes[i].chapters.reduce((t, c) => t + c.duration, 0);
+      console.log(
+        chalk.cyan(
+          `🎧 Encoding ${path.basename(outputPath)}: ${count} chapter${
+            count === 1 ? "" : "s"
+          }, ${formatDuration(seconds)}`
+        )
+      );
+      await this.encode(volumes[i], outputPath, metadata, {
+        title,
+        track: volumes.length > 1 ? `${i + 1}/${volumes.length}` : undefined,
+      });
+      outputs.push(outputPath);
+    }
+    return outputs;
+  }
+
+  get narrator(): string {
+    if (this.options.narrator) return this.options.narrator;
+
+    const config = ConfigManager.getProviderConfig(this.provider);
+    const voiceId = this.options.voice || config.default_settings.voice;
+    const voice = config.voices.find((v) => v.id === voiceId);
+    return `${voice?.name || voiceId} (${config.provider.display_name})`;
+  }
+
+  private async encode(
+    volume: Volume,
+    outputPath: string,
+    metadata: BookMetadata,
+    tags: { title: string; track?: string }
+  ): Promise<void> {
+    const tempDir = path.join(this.bookDir, "processing", "temp");
+    await fs.ensureDir(tempDir);
+    const base = path.join(tempDir, path.basename(outputPath, ".m4b"));
+    const listPath = `${base}.concat.txt`;
+    const metadataFile = `${base}.ffmetadata`;
+    const partialPath = `${base}.partial.m4b`;
+
+    // Chapter markers are laid end to end from the measured durations
+    const lines = [";FFMETADATA1"];
+    const global: Record<string, unknown> = {
+      title: tags.title,
+      album: tags.title,
+      artist: metadata.author,
+      album_artist: metadata.author,
+      // Audiobook players show the composer as the narrator
+      composer: this.narrator,
+      genre: "Audiobook",
+      date: metadata.publicationDate
+        ? String(metadata.publicationDate).slice(0, 4)
+        : undefined,
+      comment: metadata.description,
+      copyright: metadata.rights,
+      track: tags.track,
+    };
+    for (const [key, value] of Object.entries(global)) {
+      if (value) lines.push(`${key}=${escapeMetadata(value)}`);
+    }
+    let start = 0;
+    for (const chapter of volume.chapters) {
+      const end = start + Math.round(chapter.duration * 1000);
+      lines.push(
+        "",
+        "[CHAPTER]",
+        "TIMEBASE=1/1000",
+        `START=${start}`,
+        `END=${end}`,
+        `title=${escapeMetadata(chapter.title)}`
+      );
+      start = end;
+    }
+    await fs.writeFile(metadataFile, lines.join("\n") + "\n");
+    await writeConcatList(
+      listPath,
+      volume.chapters.map((chapter) => chapter.file)
+    );
+
+    const cover = metadata.cover
+      ? path.join(this.bookDir, metadata.cover)
+      : null;
+    const hasCover = cover !== null && (await fs.pathExists(cover));
+
+    const command = ffmpeg()
+      .input(listPath)
+      .inputOptions(["-f", "concat", "-safe", "0"])
+      .input(metadataFile);
+    if (hasCover) command.input(cover!);
+    command
+      .outputOptions([
+        "-map",
+        "0:a",
+        "-map_metadata",
+        "1",
+        "-map_chapters",
+        "1",
+        ...(hasCover
+          ? ["-map", "2:v", "-c:v", "copy", "-disposition:v:0", "attached_pic"]
+          : []),
+        "-c:a",
+        "aac",
+        "-b:a",
+        this.options.bitrate || "64k",
+        "-movflags",
+        "+faststart",
+        "-f",
+        "ipod",
+      ])
+      .output(partialPath);
+
+    try {
+      await runFfmpeg(command, "M4B encoding");
+      await fs.move(partialPath, outputPath, { overwrite: true });
+    } finally {
+      await fs.remove(listPath);
+      await fs.remove(metadataFile);
+      await fs.remove(partialPath);
+    }
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("assemble")
+  .description("Assemble a provider's chapter audio into an M4B audiobook")
+  .version("1.0.0")
+  .argument("<book-directory>", "Path to the book directory")
+  .option(
+    "-p, --provider <provider>",
+    "TTS provider (google, openai)",
+    "google"
+  )
+  .option("-v, --voice <voice>", "Voice the chapters were generated with")
+  .option("-n, --narrator <name>", "Narrator tag (default: voice and provider)")
+  .option("-s, --split-parts", "Write one M4B per part of the book")
+  .option("-b, --bitrate <rate>", "AAC bit rate", "64k")
+  .action(async (bookDir: string, options: AssembleCliOptions) => {
+    try {
+      const assembler = new AudiobookAssembler(bookDir, options.provider, {
+        voice: options.voice,
+        narrator: options.narrator,
+        splitParts: options.splitParts,
+        bitrate: options.bitrate,
+      });
+      const outputs = await assembler.assemble();
+      for (const output of outputs) {
+        console.log(
+          chalk.green(`✅ Audiobook: ${path.relative(process.cwd(), output)}`)
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { AudiobookAssembler, AssembleOptions };
@@ -0,0 +1,326 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { AudioFormat, TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  m4b: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/ogg",
+  flac: "audio/flac",
+  webm: "audio/webm",
+};
+
+/**
+ * MIME type for an audio file name or bare extension
+ */
+function audioMimeType(fileOrExtension: string): string {
+  const extension = fileOrExtension.split(".").pop()!.toLowerCase();
+  return AUDIO_MIME_TYPES[extension] || "application/octet-stream";
+}
+
+/**
+ * MIME type for a provider audio format. Some providers declare a MIME type
+ * (`audio/wav`), others a bare name (`mp3`); the extension decides otherwise.
+ */
+function audioFormatMimeType(format: AudioFormat): string {
+  return Object.values(AUDIO_MIME_TYPES).includes(format.format)
+    ? format.format
+    : audioMimeType(format.extension);
+}
+
+/**
+ * The provider audio format a generated file was written in, matched by
+ * extension (the default format wins when several share one)
+ */
+function audioFormatForFile(
+  provider: TTSProvider,
+  file: string
+): AudioFormat | undefined {
+  if (!ConfigManager.isProviderAvailable(provider)) return undefined;
+
+  const { audio } = ConfigManager.getProviderConfig(provider);
+  const extension = path.extname(file).slice(1).toLowerCase();
+  return [audio.default_format, ...audio.supported_formats].find(
+    (format) => format.extension === extension
+  );
+}
+
+interface WavInfo {
+  // 1 for integer PCM; 3 is float, 0xfffe WAVE_FORMAT_EXTENSIBLE
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  byteRate: number;
+  // Offset and length of the PCM samples in the file
+  dataOffset: number;
+  dataLength: number;
+}
+
+interface RiffChunk {
+  id: string;
+  // Offset of the chunk header; the payload starts 8 bytes later
+  offset: number;
+  size: number;
+}
+
+/**
+ * The top-level chunks of a RIFF/WAVE file; null when the buffer is not one
+ */
+function readRiffChunks(buffer: Buffer): RiffChunk[] | null {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    return null;
+  }
+
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const available = buffer.length - offset - 8;
+    let size = buffer.readUInt32LE(offset + 4);
+    // Streamed WAVs may leave the data size at 0 or 0xFFFFFFFF
+    if (size > available || (id === "data" && size === 0)) size = available;
+    chunks.push({ id, offset, size });
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+/**
+ * Parse the RIFF header of a WAV file; null when the buffer is not a WAV
+ */
+function readWavInfo(buffer: Buffer): WavInfo | null {
+  const chunks = readRiffChunks(buffer);
+  const fmt = chunks?.find((chunk) => chunk.id === "fmt " && chunk.size >= 16);
+  const data = chunks?.find((chunk) => chunk.id === "data");
+  if (!fmt || !data) return null;
+
+  return {
+    audioFormat: buffer.readUInt16LE(fmt.offset + 8),
+    channels: buffer.readUInt16LE(fmt.offset + 10),
+    sampleRate: buffer.readUInt32LE(fmt.offset + 12),
+    byteRate: buffer.readUInt32LE(fmt.offset + 16),
+    bitsPerSample: buffer.readUInt16LE(fmt.offset + 22),
+    dataOffset: data.offset + 8,
+    dataLength: data.size,
+  };
+}
+
+/**
+ * Build a 44-byte PCM WAV header for `dataLength` bytes of samples
+ */
+function wavHeader(
+  format: Pick<WavInfo, "channels" | "sampleRate" | "bitsPerSample">,
+  dataLength: number
+): Buffer {
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  const header = Buffer.alloc(44);
+
+  // RIFF header
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write("WAVE", 8);
+
+  // Format chunk
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16); // Chunk size
+  header.writeUInt16LE(1, 20); // Audio format (PCM)
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28); // Byte rate
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+
+  // Data chunk
+  header.write("data", 36);
+  header.writeUInt32LE(dataLength, 40);
+  return header;
+}
+
+// ffmetadata values escape "=", ";", "#", "\" and newlines with a backslash
+function escapeMetadata(value: unknown): string {
+  return String(value).replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Run an ffmpeg command to completion and resolve with its log (stderr),
+ * which is where analysis filters print their results. Errors name the
+ * step that failed, since "Cannot find ffmpeg" alone does not say what
+ * needed it.
+ */
+function runFfmpeg(
+  command: ffmpeg.FfmpegCommand,
+  step: string
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    command
+      .on("end", (_stdout: string | null, stderr: string | null) =>
+        resolve(stderr || "")
+      )
+      .on("error", (error: Error) =>
+        reject(new Error(`ffmpeg ${step} failed: ${error.message}`))
+      )
+      .run();
+  });
+}
+
+function probeDuration(file: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(file, (error, data) => {
+      const duration = Number(data?.format?.duration);
+      if (error || !Number.isFinite(duration)) {
+        reject(error || new Error(`No duration for ${file}`));
+      } else {
+        resolve(duration);
+      }
+    });
+  });
+}
+
+// Codec, sample rate and channel count of a file's audio stream
+interface AudioStreamFormat {
+  codec: string;
+  sampleRate: number;
+  channels: number;
+}
+
+function probeStreamFormat(file: string): Promise<AudioStreamFormat> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(file, (error, data) => {
+      const stream = data?.streams?.find((s) => s.codec_type === "audio");
+      if (
+        error ||
+        !stream?.codec_name ||
+        !stream.sample_rate ||
+        !stream.channels
+      ) {
+        reject(error || new Error(`No audio stream in ${file}`));
+      } else {
+        resolve({
+          codec: stream.codec_name,
+          sampleRate: Number(stream.sample_rate),
+          channels: stream.channels,
+        });
+      }
+    });
+  });
+}
+
+/**
+ * The stream format of an audio file, named the way ffprobe names it: read
+ * from the header for PCM WAV, probed with ffprobe otherwise
+ */
+async function audioStreamFormat(file: string): Promise<AudioStreamFormat> {
+  if (path.extname(file).toLowerCase() === ".wav") {
+    const wav = readWavInfo(await fs.readFile(file));
+    if (wav && (wav.audioFormat === 1 || wav.audioFormat === 3)) {
+      const bits = wav.bitsPerSample;
+      return {
+        codec:
+          wav.audioFormat === 3
+            ? `pcm_f${bits}le`
+            : bits === 8
+            ? "pcm_u8"
+            : `pcm_s${bits}le`,
+        sampleRate: wav.sampleRate,
+        channels: wav.channels,
+      };
+    }
+  }
+  return probeStreamFormat(file);
+}
+
+/**
+ * Duration of an audio file in seconds: exact for WAV, probed with ffprobe
+ * otherwise, and estimated from the format's bit rate when ffprobe is
+ * unavailable. Returns null when none of these work.
+ */
+async function audioDuration(
+  file: string,
+  format?: AudioFormat
+): Promise<number | null> {
+  if (path.extname(file).toLowerCase() === ".wav") {
+    const wav = readWavInfo(await fs.readFile(file));
+    if (wav && wav.byteRate > 0) return wav.dataLength / wav.byteRate;
+  }
+
+  try {
+    return await probeDuration(file);
+  } catch {
+    const bitRate = /^(\d+(?:\.\d+)?)k$/i.exec(format?.bit_rate || "");
+    if (!bitRate) return null;
+    const { size } = await fs.stat(file);
+    return (size * 8) / (parseFloat(bitRate[1]) * 1000);
+  }
+}
+
+/**
+ * Chapter audio files generated for a provider, keyed by chapter order.
+ * Files are named after the chapter they voice: `04-chapter-title.mp3`.
+ */
+async function listChapterAudio(
+  bookDir: string,
+  provider: TTSProvider
+): Promise<Map<number, string>> {
+  const chaptersDir = path.join(
+    ConfigManager.getAudioOutputDir(bookDir, provider),
+    "chapters"
+  );
+  const audio = new Map<number, string>();
+  if (!(await fs.pathExists(chaptersDir))) return audio;
+
+  for (const file of (await fs.readdir(chaptersDir)).sort()) {
+    const match = /^(\d+)-.+\.(\w+)$/.exec(file);
+    if (!match || !AUDIO_MIME_TYPES[match[2].toLowerCase()]) continue;
+
+    const order = parseInt(match[1]);
+    if (!audio.has(order)) audio.set(order, path.join(chaptersDir, file));
+  }
+  return audio;
+}
+
+/**
+ * Providers that have a chapter audio directory in the book
+ */
+async function listAudioProviders(bookDir: string): Promise<TTSProvider[]> {
+  const audioDir = path.join(bookDir, "audio");
+  if (!(await fs.pathExists(audioDir))) return [];
+
+  const providers: TTSProvider[] = [];
+  for (const entry of (await fs.readdir(audioDir)).sort()) {
+    if (await fs.pathExists(path.join(audioDir, entry, "chapters"))) {
+      providers.push(entry as TTSProvider);
+    }
+  }
+  return providers;
+}
+
+export {
+  audioMimeType,
+  audioFormatMimeType,
+  audioFormatForFile,
+  audioDuration,
+  audioStreamFormat,
+  AudioStreamFormat,
+  runFfmpeg,
+  escapeMetadata,
+  readRiffChunks,
+  readWavInfo,
+  wavHeader,
+  RiffChunk,
+  WavInfo,
+  listChapterAudio,
+  listAudioProviders,
+};
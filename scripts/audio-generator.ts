@@ -8,10 +8,28 @@ import { OpenAI } from "openai";
 import chalk from "chalk";
 import ProgressBar from "progress";
 import { ConfigManager } from "../config/config-manager";
+import { BookMetadata } from "./book-metadata";
+import { stripFrontMatter } from "./front-matter";
+import { wavHeader } from "./audio-files";
+import { mergeAudioFiles } from "./audio-merge";
+import { needsTranscoding, transcodeAudio } from "./audio-transcode";
+import {
+  audioProcessingEnabled,
+  describeProcessing,
+  processAudio,
+  recordProcessed,
+} from "./audio-processing";
+import {
+  chapterAudioTags,
+  generatedByComment,
+  writeAudioTags,
+} from "./audio-tags";
 import {
   TTSProvider,
   ChapterAudioOptions,
   TTSProviderConfig,
+  SectionRole,
+  AudioFormat,
 } from "../config/types";
 
 interface Chapter {
@@ -19,13 +37,7 @@ interface Chapter {
   title: string;
   order: number;
   filename: string;
-}
-
-interface BookMetadata {
-  title: string;
-  author: string;
-  language: string;
-  totalChapters: number;
+  role?: SectionRole;
 }
 
 interface GoogleTTSRequest {
@@ -77,6 +89,9 @@ export class UnifiedAudioGenerator {
   private logFile: string;
   private openai?: OpenAI;
   private options: Required<ChapterAudioOptions>;
+  // Format of the chapter files, and the one the provider is asked for
+  private outputFormat: AudioFormat;
+  private nativeFormat: AudioFormat;
 
   constructor(
     bookDir: string,
@@ -87,6 +102,11 @@ export class UnifiedAudioGenerator {
     this.provider = provider;
     this.config = ConfigManager.getProviderConfig(provider);
     this.options = ConfigManager.getEffectiveOptions(provider, options);
+    this.outputFormat = ConfigManager.resolveOutputFormat(
+      provider,
+      this.options.format
+    );
+    this.nativeFormat = this.nativeFormatFor(this.outputFormat);
 
     // Set up provider-specific logging
     const logsDir = ConfigManager.getLogsDir(bookDir, provider);
@@ -145,11 +165,26 @@ export class UnifiedAudioGenerator {
 
     let normalized = text;
 
-    // Skip footnotes if configured
-    if (globalSettings.text_processing.remove_footnotes) {
-      normalized = normalized.replace(/\[\d+\]/g, "");
-      normalized = normalized.replace(/\(\d+\)/g, "");
-    }
+    // Footnote markers not already placed by arrangeFootnotes
+    normalized = normalized.replace(/\[\^[^\]\s]+\]/g, "");
+
+    // Images are either described by their alt text or left out
+    normalized = normalized.replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt) =>
+      globalSettings.text_processing.read_image_alt_text && alt.trim()
+        ? `Image: ${alt.trim()}.`
+        : ""
+    );
+
+    // Table rows are read as comma-separated cells; separator rows are dropped
+    normalized = normalized
+      .replace(/^\|(\s*:?-{3,}:?\s*\|)+$/gm, "")
+      .replace(/^\|(.*)\|$/gm, (_, cells: string) =>
+        cells
+          .split(/(?<!\\)\|/)
+          .map((cell) => cell.trim())
+          .filter(Boolean)
+          .join(", ")
+      );
 
     // Normalize whitespace if configured
     if (globalSettings.text_processing.normalize_whitespace) {
@@ -170,6 +205,42 @@ export class UnifiedAudioGenerator {
     return normalized;
   }
 
+  /**
+   * Place Markdown footnotes for narration according to
+   * text_processing.footnotes: dropped, read in parentheses where they are
+   * referenced, or read together after the chapter text
+   */
+  private arrangeFootnotes(markdown: string): string {
+    const mode = ConfigManager.getGlobalSettings().text_processing.footnotes;
+    const definitions = new Map<string, string>();
+
+    // Definitions continue on indented lines, possibly after blank lines
+    const body = markdown.replace(
+      /^\[\^([^\]\s]+)\]:[ \t]*(.*(?:\n(?:[ \t]*\n)*(?: {4}|\t).*)*)/gm,
+      (_, label: string, text: string) => {
+        definitions.set(label, text.replace(/\s+/g, " ").trim());
+        return "";
+      }
+    );
+
+    const reference = /\[\^([^\]\s]+)\]/g;
+    if (mode === "inline") {
+      return body
+        .replace(reference, (_, label: string) =>
+          definitions.has(label) ? ` (Note: ${definitions.get(label)})` : ""
+        )
+        .trim();
+    }
+
+    const text = body.replace(reference, "").trim();
+    if (mode === "skip" || definitions.size === 0) return text;
+
+    const notes = Array.from(definitions.entries()).map(
+      ([label, note]) => `Note ${label}. ${note}`
+    );
+    return `${text}\n\nNotes.\n\n${notes.join("\n\n")}`;
+  }
+
   private splitTextIntoChunks(text: string): string[] {
     const maxChunkSize = this.options.chunk_size;
 
@@ -345,7 +416,7 @@ export class UnifiedAudioGenerator {
           | "nova"
           | "shimmer",
         input: text,
-        response_format: this.options.format as
+        response_format: this.nativeFormat.format as
           | "mp3"
           | "opus"
           | "aac"
@@ -382,13 +453,25 @@ export class UnifiedAudioGenerator {
         `Converting PCM to audio: ${sampleRate}Hz, ${pcmBuffer.length} bytes`
       );
 
-      // Save as WAV (most compatible format)
-      const wavPath = outputPath.replace(/\.[^.]+$/, ".wav");
-      await this.createWavFile(pcmBuffer, wavPath, sampleRate);
+      if (path.extname(outputPath).toLowerCase() === ".wav") {
+        await this.createWavFile(pcmBuffer, outputPath, sampleRate);
+        return;
+      }
 
-      // If output path is not WAV, rename the file
-      if (outputPath !== wavPath) {
-        await fs.move(wavPath, outputPath, { overwrite: true });
+      // Any other extension gets real contents of that format
+      const wavPath = outputPath.replace(/\.[^.]+$/, ".pcm.wav");
+      await this.createWavFile(pcmBuffer, wavPath, sampleRate);
+      try {
+        await transcodeAudio(
+          wavPath,
+          outputPath,
+          ConfigManager.resolveOutputFormat(
+            this.provider,
+            path.extname(outputPath).slice(1)
+          )
+        );
+      } finally {
+        await fs.remove(wavPath);
       }
     } catch (error) {
       await this.log(`Error converting PCM: ${error}`, "error");
@@ -401,30 +484,11 @@ export class UnifiedAudioGenerator {
     outputPath: string,
     sampleRate: number
   ): Promise<void> {
-    // Create WAV header for 16-bit mono PCM
-    const dataLength = pcmBuffer.length;
-    const header = Buffer.alloc(44);
-
-    // RIFF header
-    header.write("RIFF", 0);
-    header.writeUInt32LE(36 + dataLength, 4);
-    header.write("WAVE", 8);
-
-    // Format chunk
-    header.write("fmt ", 12);
-    header.writeUInt32LE(16, 16); // Chunk size
-    header.writeUInt16LE(1, 20); // Audio format (PCM)
-    header.writeUInt16LE(1, 22); // Channels (mono)
-    header.writeUInt32LE(sampleRate, 24); // Sample rate
-    header.writeUInt32LE(sampleRate * 2, 28); // Byte rate
-    header.writeUInt16LE(2, 32); // Block align
-    header.writeUInt16LE(16, 34); // Bits per sample
-
-    // Data chunk
-    header.write("data", 36);
-    header.writeUInt32LE(dataLength, 40);
-
-    // Write header + PCM data
+    // 16-bit mono PCM
+    const header = wavHeader(
+      { channels: 1, sampleRate, bitsPerSample: 16 },
+      pcmBuffer.length
+    );
     const wavBuffer = Buffer.concat([header, pcmBuffer]);
     await fs.writeFile(outputPath, wavBuffer);
   }
@@ -484,21 +548,34 @@ export class UnifiedAudioGenerator {
     text: string,
     outputPath: string,
     progressBar?: ProgressBar
-  ): Promise<void> {
+  ): Promise<boolean> {
     const chunks = this.splitTextIntoChunks(text);
     const tempDir = path.join(this.bookDir, "temp");
     await fs.ensureDir(tempDir);
 
+    // Audio is generated in the provider's native format, then processed
+    // and/or transcoded into the output format in one encode
+    const processing = ConfigManager.getGlobalSettings().audio_processing;
+    const postProcess = audioProcessingEnabled(processing);
+    const transcode = needsTranscoding(this.nativeFormat, this.outputFormat);
+    const nativePath =
+      postProcess || transcode
+        ? path.join(
+            tempDir,
+            `chapter_${Date.now()}.${this.nativeFormat.extension}`
+          )
+        : outputPath;
+
     if (chunks.length === 1) {
       // Single chunk, generate directly
-      await this.generateSingleAudio(chunks[0], outputPath);
+      await this.generateSingleAudio(chunks[0], nativePath);
       if (progressBar) progressBar.tick();
     } else {
       // Multiple chunks, generate and concatenate
       const chunkPaths: string[] = [];
 
       for (let i = 0; i < chunks.length; i++) {
-        const extension = this.config.audio.default_format.extension;
+        const extension = this.nativeFormat.extension;
         const chunkPath = path.join(
           tempDir,
           `chunk_${Date.now()}_${i}.${extension}`
@@ -515,13 +592,92 @@ export class UnifiedAudioGenerator {
       }
 
       // Concatenate chunks
-      await this.concatenateAudioFiles(chunkPaths, outputPath);
+      await this.concatenateAudioFiles(chunkPaths, nativePath);
 
       // Cleanup temp files
       for (const chunkPath of chunkPaths) {
         await fs.remove(chunkPath);
       }
     }
+
+    if (postProcess) {
+      try {
+        const report = await processAudio(
+          nativePath,
+          outputPath,
+          this.outputFormat,
+          processing
+        );
+        await this.log(
+          `Processed ${path.basename(outputPath)}: ${describeProcessing(
+            report
+          )}`
+        );
+        return true;
+      } catch (error) {
+        // Unprocessed audio is still better than none
+        await this.log(
+          `Audio processing failed for ${path.basename(
+            outputPath
+          )}, keeping it unprocessed: ${error}`,
+          "warn"
+        );
+        if (transcode) {
+          await transcodeAudio(nativePath, outputPath, this.outputFormat);
+        } else {
+          await fs.copy(nativePath, outputPath, { overwrite: true });
+        }
+      } finally {
+        await fs.remove(nativePath);
+      }
+    } else if (transcode) {
+      try {
+        await transcodeAudio(nativePath, outputPath, this.outputFormat);
+        await this.log(
+          `Transcoded ${this.nativeFormat.extension} to ${this.describeFormat(
+            this.outputFormat
+          )}: ${path.basename(outputPath)}`
+        );
+      } finally {
+        await fs.remove(nativePath);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * The format to request from the provider for a given output format.
+   * Google always returns PCM (saved as WAV); OpenAI can return any of its
+   * supported formats, and lossless FLAC when the output is transcoded or
+   * post-processed.
+   */
+  private nativeFormatFor(output: AudioFormat): AudioFormat {
+    const { default_format, supported_formats } = this.config.audio;
+    const processing = ConfigManager.getGlobalSettings().audio_processing;
+    switch (this.provider) {
+      case "openai":
+        return (
+          (!audioProcessingEnabled(processing) &&
+            supported_formats.find((f) => !needsTranscoding(f, output))) ||
+          supported_formats.find((f) => f.codec === "flac") ||
+          default_format
+        );
+      default:
+        return default_format;
+    }
+  }
+
+  private describeFormat(format: AudioFormat): string {
+    return [
+      format.extension,
+      format.bit_rate,
+      format.sample_rate && `${format.sample_rate / 1000}kHz`,
+      format.channels === 1
+        ? "mono"
+        : format.channels && `${format.channels}ch`,
+    ]
+      .filter(Boolean)
+      .join(" ");
   }
 
   private async concatenateAudioFiles(
@@ -529,18 +685,10 @@ export class UnifiedAudioGenerator {
     outputPath: string
   ): Promise<void> {
     try {
-      // Simple concatenation for audio files
-      const chunks: Buffer[] = [];
-
-      for (const inputPath of inputPaths) {
-        const chunk = await fs.readFile(inputPath);
-        chunks.push(chunk);
-      }
-
-      const concatenated = Buffer.concat(chunks);
-      await fs.writeFile(outputPath, concatenated);
-
-      await this.log(`Concatenated ${inputPaths.length} audio chunks`);
+      const method = await mergeAudioFiles(inputPaths, outputPath);
+      await this.log(
+        `Concatenated ${inputPaths.length} audio chunks (${method})`
+      );
     } catch (error) {
       await this.log(`Error concatenating audio files: ${error}`, "error");
       throw error;
@@ -552,16 +700,68 @@ export class UnifiedAudioGenerator {
     outputPath: string,
     chapterTitle: string,
     chapterNumber: number
-  ): Promise<void> {
+  ): Promise<boolean> {
     await this.log(`Processing chapter: ${chapterTitle}`);
 
-    const chapterContent = await fs.readFile(chapterPath, "utf-8");
+    const chapterContent = stripFrontMatter(
+      await fs.readFile(chapterPath, "utf-8")
+    );
 
     // For now, just use the content as-is
     // TODO: Add chapter announcements based on global settings
-    const audioText = chapterContent;
+    const audioText = this.arrangeFootnotes(chapterContent);
+
+    // Whether the audio was post-processed
+    return this.generateAudioForText(audioText, outputPath);
+  }
+
+  // A chapter re-generated in another format would otherwise leave the old
+  // file behind, and players could pick either
+  private async removeOtherFormats(audioPath: string): Promise<void> {
+    const stem = path.basename(audioPath, path.extname(audioPath));
+    const dir = path.dirname(audioPath);
+    for (const file of await fs.readdir(dir)) {
+      if (
+        file !== path.basename(audioPath) &&
+        path.basename(file, path.extname(file)) === stem
+      ) {
+        await fs.remove(path.join(dir, file));
+        await this.log(
+          `Removed ${file}, replaced by ${path.basename(audioPath)}`
+        );
+      }
+    }
+  }
 
-    await this.generateAudioForText(audioText, outputPath);
+  // Tagging failures (e.g. no FFmpeg for MP3) leave the audio untagged
+  private async tagChapterAudio(
+    audioPath: string,
+    chapter: Chapter,
+    metadata: BookMetadata
+  ): Promise<void> {
+    try {
+      const tags = chapterAudioTags(
+        this.bookDir,
+        metadata,
+        chapter,
+        generatedByComment(
+          this.provider,
+          this.options.model,
+          this.options.voice
+        )
+      );
+      const format = await writeAudioTags(audioPath, tags);
+      await this.log(
+        format
+          ? `Tagged ${path.basename(audioPath)} (${format})`
+          : `${path.basename(audioPath)} cannot hold tags, left untagged`
+      );
+    } catch (error) {
+      await this.log(
+        `Could not tag ${path.basename(audioPath)}: ${error}`,
+        "warn"
+      );
+    }
   }
 
   async generateBookAudio(): Promise<void> {
@@ -571,6 +771,9 @@ export class UnifiedAudioGenerator {
         `🤖 Using ${this.config.provider.display_name} with voice: ${this.options.voice}`
       )
     );
+    console.log(
+      chalk.cyan(`🎚️  Output format: ${this.describeFormat(this.outputFormat)}`)
+    );
     await this.log("Starting audio generation for book");
 
     // Validate configuration
@@ -609,9 +812,23 @@ export class UnifiedAudioGenerator {
 
     const chapterAudioPaths: string[] = [];
 
+    // Front and back matter such as copyright pages is converted but not voiced
+    const narratedChapters: Chapter[] = toc.chapters.filter(
+      (chapter: Chapter) =>
+        !chapter.role || !this.options.skip_roles.includes(chapter.role)
+    );
+    const skippedCount = toc.chapters.length - narratedChapters.length;
+    if (skippedCount > 0) {
+      await this.log(
+        `Skipping ${skippedCount} non-narrated sections (${this.options.skip_roles.join(
+          ", "
+        )})`
+      );
+    }
+
     // Calculate total chunks for progress bar
     let totalChunks = 0;
-    for (const chapter of toc.chapters) {
+    for (const chapter of narratedChapters) {
       const chapterPath = path.join(
         this.bookDir,
         "content",
@@ -619,7 +836,9 @@ export class UnifiedAudioGenerator {
         chapter.filename
       );
       if (await fs.pathExists(chapterPath)) {
-        const content = await fs.readFile(chapterPath, "utf-8");
+        const content = stripFrontMatter(
+          await fs.readFile(chapterPath, "utf-8")
+        );
         const chunks = this.splitTextIntoChunks(content);
         totalChunks += chunks.length;
       }
@@ -637,7 +856,7 @@ export class UnifiedAudioGenerator {
     );
 
     // Generate individual chapter audio files
-    for (const chapter of toc.chapters) {
+    for (const chapter of narratedChapters) {
       const chapterPath = path.join(
         this.bookDir,
         "content",
@@ -650,7 +869,7 @@ export class UnifiedAudioGenerator {
         continue;
       }
 
-      const audioExtension = this.config.audio.default_format.extension;
+      const audioExtension = this.outputFormat.extension;
       const audioFilename = `${String(chapter.order).padStart(
         2,
         "0"
@@ -658,12 +877,15 @@ export class UnifiedAudioGenerator {
       const audioPath = path.join(chaptersAudioDir, audioFilename);
       chapterAudioPaths.push(audioPath);
 
-      await this.generateChapterAudio(
+      const processed = await this.generateChapterAudio(
         chapterPath,
         audioPath,
         chapter.title,
         chapter.order
       );
+      await this.tagChapterAudio(audioPath, chapter, metadata);
+      if (processed) await recordProcessed(audioDir, audioPath);
+      await this.removeOtherFormats(audioPath);
 
       // Rate limiting between chapters
       await this.delay(this.options.rate_limit_delay);
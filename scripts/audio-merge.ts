@@ -0,0 +1,133 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { readWavInfo, runFfmpeg, wavHeader, WavInfo } from "./audio-files";
+
+type MergeMethod = "copy" | "pcm" | "ffmpeg";
+
+/**
+ * Join WAV files at the sample level: the PCM data of every input is
+ * appended under one freshly written header. All inputs must share the
+ * same channel count, sample rate and bit depth.
+ */
+async function mergeWavFiles(
+  inputs: Array<{ path: string; buffer: Buffer; info: WavInfo }>,
+  outputPath: string
+): Promise<void> {
+  const [first] = inputs;
+  for (const input of inputs) {
+    const { info } = input;
+    if (
+      info.channels !== first.info.channels ||
+      info.sampleRate !== first.info.sampleRate ||
+      info.bitsPerSample !== first.info.bitsPerSample
+    ) {
+      throw new Error(
+        `Cannot merge ${path.basename(input.path)} (${info.sampleRate}Hz, ${
+          info.channels
+        }ch, ${info.bitsPerSample}-bit) with ${path.basename(first.path)} (${
+          first.info.sampleRate
+        }Hz, ${first.info.channels}ch, ${first.info.bitsPerSample}-bit)`
+      );
+    }
+  }
+
+  const samples = inputs.map(({ buffer, info }) =>
+    buffer.subarray(info.dataOffset, info.dataOffset + info.dataLength)
+  );
+  const dataLength = samples.reduce((total, data) => total + data.length, 0);
+  await fs.writeFile(
+    outputPath,
+    Buffer.concat([wavHeader(first.info, dataLength), ...samples])
+  );
+}
+
+/**
+ * Write an input list for ffmpeg's concat demuxer (`-f concat -safe 0`)
+ */
+async function writeConcatList(
+  listPath: string,
+  inputPaths: string[]
+): Promise<void> {
+  // Single quotes in paths are escaped the way the concat demuxer expects
+  await fs.writeFile(
+    listPath,
+    inputPaths
+      .map(
+        (inputPath) =>
+          `file '${path.resolve(inputPath).replace(/'/g, "'\\''")}'`
+      )
+      .join("\n") + "\n"
+  );
+}
+
+/**
+ * Join compressed files with ffmpeg's concat demuxer. Streams are copied,
+ * not re-encoded; ffmpeg drops each input's ID3 tags and Xing/LAME frame and
+ * writes one header for the whole output.
+ */
+async function mergeWithFfmpeg(
+  inputPaths: string[],
+  outputPath: string
+): Promise<void> {
+  const extension = path.extname(outputPath);
+  const listPath = `${outputPath}.concat.txt`;
+  // Written next to the output and moved into place once ffmpeg succeeds
+  const partialPath = path.join(
+    path.dirname(outputPath),
+    `.${path.basename(outputPath, extension)}.merging${extension}`
+  );
+
+  await writeConcatList(listPath, inputPaths);
+
+  try {
+    await runFfmpeg(
+      ffmpeg()
+        .input(listPath)
+        .inputOptions(["-f", "concat", "-safe", "0"])
+        .outputOptions(["-c", "copy", "-map_metadata", "-1"])
+        .output(partialPath),
+      "concat"
+    );
+    await fs.move(partialPath, outputPath, { overwrite: true });
+  } finally {
+    await fs.remove(listPath);
+    await fs.remove(partialPath);
+  }
+}
+
+/**
+ * Merge audio chunks into one playable file. Integer PCM WAV chunks are
+ * detected by their header (not the extension) and joined directly;
+ * everything else goes through ffmpeg. Returns the method used.
+ */
+async function mergeAudioFiles(
+  inputPaths: string[],
+  outputPath: string
+): Promise<MergeMethod> {
+  if (inputPaths.length === 0) {
+    throw new Error("No audio files to merge");
+  }
+  if (inputPaths.length === 1) {
+    await fs.copy(inputPaths[0], outputPath);
+    return "copy";
+  }
+
+  const wavInputs: Array<{ path: string; buffer: Buffer; info: WavInfo }> = [];
+  for (const inputPath of inputPaths) {
+    const buffer = await fs.readFile(inputPath);
+    const info = readWavInfo(buffer);
+    if (!info || info.audioFormat !== 1) break;
+    wavInputs.push({ path: inputPath, buffer, info });
+  }
+
+  if (wavInputs.length === inputPaths.length) {
+    await mergeWavFiles(wavInputs, outputPath);
+    return "pcm";
+  }
+
+  await mergeWithFfmpeg(inputPaths, outputPath);
+  return "ffmpeg";
+}
+
+export { mergeAudioFiles, writeConcatList, MergeMethod };
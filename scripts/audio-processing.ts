@@ -0,0 +1,302 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import * as YAML from "yaml";
+import ffmpeg from "fluent-ffmpeg";
+import { AudioFormat, GlobalTTSSettings } from "../config/types";
+import { audioDuration, runFfmpeg } from "./audio-files";
+import { transcodeAudio } from "./audio-transcode";
+
+type AudioProcessingSettings = GlobalTTSSettings["audio_processing"];
+
+// As reported by ffmpeg's loudnorm filter
+interface LoudnessStats {
+  // Integrated loudness, LUFS
+  integrated: number;
+  // True peak, dBTP
+  truePeak: number;
+  // Loudness range, LU
+  range: number;
+  threshold: number;
+  offset: number;
+}
+
+interface AudioAnalysis {
+  loudness: LoudnessStats | null;
+  duration: number | null;
+  sampleRate: number | null;
+  // Length of the silence at the start, and where the silence at the end begins
+  leadingSilence: number;
+  trailingSilence: number | null;
+}
+
+// audio/<provider>/processed.yml: hash of each chapter file as processing
+// left it, so no file is trimmed and faded twice
+interface ProcessedAudioState {
+  files: Record<string, string>;
+}
+
+interface ProcessingReport {
+  before: LoudnessStats | null;
+  after: LoudnessStats | null;
+  // Seconds of silence cut from each end
+  trimmedStart: number;
+  trimmedEnd: number;
+}
+
+// Quieter than this for at least SILENCE_MIN_DURATION seconds counts as silence
+const SILENCE_THRESHOLD = "-50dB";
+const SILENCE_MIN_DURATION = 0.3;
+// Pause left at each end after trimming, so chapters do not start abruptly
+const SILENCE_KEPT = 0.25;
+// EBU R128 true peak ceiling and loudness range for loudnorm
+const TRUE_PEAK = -1.5;
+const LOUDNESS_RANGE = 11;
+
+/**
+ * Whether generated chapters are processed: at least one step is switched on
+ */
+function audioProcessingEnabled(settings: AudioProcessingSettings): boolean {
+  return (
+    settings.normalize_volume ||
+    settings.silence_detection ||
+    settings.fade_in_ms > 0 ||
+    settings.fade_out_ms > 0
+  );
+}
+
+// loudnorm prints its measurements as a JSON object at the end of the log
+function parseLoudness(
+  log: string,
+  prefix: "input" | "output"
+): LoudnessStats | null {
+  const blocks = log.match(/\{[^{}]*"input_i"[^{}]*\}/g);
+  if (!blocks) return null;
+
+  const json = JSON.parse(blocks[blocks.length - 1]);
+  const stats: LoudnessStats = {
+    integrated: parseFloat(json[`${prefix}_i`]),
+    truePeak: parseFloat(json[`${prefix}_tp`]),
+    range: parseFloat(json[`${prefix}_lra`]),
+    threshold: parseFloat(json[`${prefix}_thresh`]),
+    offset: parseFloat(json.target_offset),
+  };
+  // Silent audio measures as -inf
+  return Object.values(stats).every(Number.isFinite) ? stats : null;
+}
+
+/**
+ * Measure a file's loudness and find silence at either end, in one pass
+ * that decodes the audio without writing anything
+ */
+async function analyzeAudio(
+  file: string,
+  settings: AudioProcessingSettings
+): Promise<AudioAnalysis> {
+  const command = ffmpeg({ stdoutLines: 0 })
+    .input(file)
+    .noVideo()
+    .audioFilters([
+      `silencedetect=noise=${SILENCE_THRESHOLD}:duration=${SILENCE_MIN_DURATION}`,
+      `loudnorm=I=${settings.target_volume_db}:TP=${TRUE_PEAK}:LRA=${LOUDNESS_RANGE}:print_format=json`,
+    ])
+    .outputOptions(["-f", "null"])
+    .output("-");
+  const log = await runFfmpeg(command, "loudness analysis");
+
+  const duration = await audioDuration(file);
+  const sampleRate = /Audio: [^,]+, (\d+) Hz/.exec(log);
+  const starts = [...log.matchAll(/silence_start: (-?[\d.]+)/g)].map((m) =>
+    parseFloat(m[1])
+  );
+  const ends = [...log.matchAll(/silence_end: (-?[\d.]+)/g)].map((m) =>
+    parseFloat(m[1])
+  );
+
+  // Silence running to the end of the file has no silence_end, or (in newer
+  // ffmpeg versions) one at the very end
+  const lastStart = starts[starts.length - 1];
+  const lastEnd = ends[ends.length - 1];
+  const trailing =
+    starts.length > ends.length ||
+    (duration !== null && lastEnd !== undefined && lastEnd >= duration - 0.05);
+
+  return {
+    loudness: parseLoudness(log, "input"),
+    duration,
+    sampleRate: sampleRate ? parseInt(sampleRate[1], 10) : null,
+    leadingSilence:
+      starts.length > 0 && starts[0] <= 0.01 && ends.length > 0 ? ends[0] : 0,
+    trailingSilence: trailing && lastStart > 0 ? lastStart : null,
+  };
+}
+
+/**
+ * Trim leading and trailing silence, normalize loudness to the target
+ * (two-pass loudnorm, EBU R128) and fade in and out, then encode into
+ * `format`. Input and output may be the same file.
+ */
+async function processAudio(
+  inputPath: string,
+  outputPath: string,
+  format: AudioFormat,
+  settings: AudioProcessingSettings
+): Promise<ProcessingReport> {
+  const analysis = await analyzeAudio(inputPath, settings);
+  const filters: string[] = [];
+
+  let start = 0;
+  let end = analysis.duration;
+  if (settings.silence_detection) {
+    start = Math.max(0, analysis.leadingSilence - SILENCE_KEPT);
+    if (analysis.trailingSilence !== null && end !== null) {
+      end = Math.min(end, analysis.trailingSilence + SILENCE_KEPT);
+    }
+    if (end !== null && end - start > 2 * SILENCE_KEPT) {
+      filters.push(
+        `atrim=start=${start.toFixed(3)}:end=${end.toFixed(3)}`,
+        "asetpts=PTS-STARTPTS"
+      );
+    } else {
+      // All silence, or a length we could not measure: left as it is
+      start = 0;
+      end = analysis.duration;
+    }
+  }
+
+  const before = analysis.loudness;
+  if (settings.normalize_volume && before) {
+    // Second pass with the measured values; linear keeps the dynamics intact
+    // unless the gain would push peaks over the ceiling
+    filters.push(
+      [
+        `loudnorm=I=${settings.target_volume_db}`,
+        `TP=${TRUE_PEAK}`,
+        `LRA=${LOUDNESS_RANGE}`,
+        `measured_I=${before.integrated}`,
+        `measured_TP=${before.truePeak}`,
+        `measured_LRA=${before.range}`,
+        `measured_thresh=${before.threshold}`,
+        `offset=${before.offset}`,
+        "linear=true",
+        "print_format=json",
+      ].join(":")
+    );
+  }
+
+  if (settings.fade_in_ms > 0) {
+    filters.push(`afade=t=in:st=0:d=${settings.fade_in_ms / 1000}`);
+  }
+  const length = end !== null ? end - start : null;
+  const fadeOut = settings.fade_out_ms / 1000;
+  if (fadeOut > 0 && length !== null && length > fadeOut) {
+    filters.push(
+      `afade=t=out:st=${(length - fadeOut).toFixed(3)}:d=${fadeOut}`
+    );
+  }
+
+  // loudnorm resamples to 192kHz, so the rate is always set explicitly
+  const log = await transcodeAudio(
+    inputPath,
+    outputPath,
+    {
+      ...format,
+      sample_rate: format.sample_rate || analysis.sampleRate || undefined,
+    },
+    filters
+  );
+
+  return {
+    before,
+    after:
+      settings.normalize_volume && before ? parseLoudness(log, "output") : null,
+    trimmedStart: start,
+    trimmedEnd:
+      analysis.duration !== null && end !== null ? analysis.duration - end : 0,
+  };
+}
+
+function describeLoudness(stats: LoudnessStats): string {
+  return `${stats.integrated.toFixed(1)} LUFS (peak ${stats.truePeak.toFixed(
+    1
+  )} dBTP, range ${stats.range.toFixed(1)} LU)`;
+}
+
+/**
+ * "-27.3 LUFS (...) → -20.0 LUFS (...), trimmed 0.62s + 1.10s of silence"
+ */
+function describeProcessing(report: ProcessingReport): string {
+  const parts: string[] = [];
+  if (report.before) {
+    parts.push(
+      report.after
+        ? `${describeLoudness(report.before)} → ${describeLoudness(
+            report.after
+          )}`
+        : describeLoudness(report.before)
+    );
+  } else {
+    parts.push("loudness not measurable");
+  }
+  if (report.trimmedStart > 0 || report.trimmedEnd > 0) {
+    parts.push(
+      `trimmed ${report.trimmedStart.toFixed(2)}s + ${report.trimmedEnd.toFixed(
+        2
+      )}s of silence`
+    );
+  }
+  return parts.join(", ");
+}
+
+async function hashFile(file: string): Promise<string> {
+  return crypto
+    .createHash("sha256")
+    .update(await fs.readFile(file))
+    .digest("hex");
+}
+
+async function loadProcessedState(
+  audioDir: string
+): Promise<ProcessedAudioState> {
+  const statePath = path.join(audioDir, "processed.yml");
+  if (!(await fs.pathExists(statePath))) {
+    return { files: {} };
+  }
+  const state = YAML.parse(await fs.readFile(statePath, "utf-8"));
+  return { files: state?.files || {} };
+}
+
+/**
+ * Whether a chapter file is still exactly as it was after processing
+ */
+async function isProcessed(audioDir: string, file: string): Promise<boolean> {
+  const { files } = await loadProcessedState(audioDir);
+  const hash = files[path.basename(file)];
+  return hash !== undefined && hash === (await hashFile(file));
+}
+
+/**
+ * Record a chapter file as processed. Rewriting its tags changes the hash,
+ * so this is called again afterwards.
+ */
+async function recordProcessed(audioDir: string, file: string): Promise<void> {
+  const state = await loadProcessedState(audioDir);
+  state.files[path.basename(file)] = await hashFile(file);
+  await fs.writeFile(
+    path.join(audioDir, "processed.yml"),
+    YAML.stringify(state, { indent: 2 })
+  );
+}
+
+export {
+  processAudio,
+  analyzeAudio,
+  audioProcessingEnabled,
+  describeLoudness,
+  describeProcessing,
+  isProcessed,
+  recordProcessed,
+  AudioProcessingSettings,
+  LoudnessStats,
+  ProcessingReport,
+};
@@ -0,0 +1,276 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import { escapeMetadata, readRiffChunks, runFfmpeg } from "./audio-files";
+import { BookMetadata } from "./book-metadata";
+
+interface AudioTags {
+  title: string;
+  album: string;
+  artist: string;
+  track: number;
+  trackTotal?: number;
+  year?: string;
+  comment?: string;
+  // Image file embedded as front cover (not supported in WAV)
+  cover?: string;
+}
+
+type TagFormat = "id3v2" | "vorbis" | "mp4" | "riff-info";
+
+const TAG_FORMATS: Record<string, TagFormat> = {
+  ".mp3": "id3v2",
+  ".flac": "vorbis",
+  ".opus": "vorbis",
+  ".ogg": "vorbis",
+  ".oga": "vorbis",
+  ".m4a": "mp4",
+  ".m4b": "mp4",
+  ".wav": "riff-info",
+};
+
+const COVER_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+};
+
+/**
+ * Tags for one chapter file, from metadata.yml. The track total is the
+ * book's chapter count, so track numbers match the chapter order.
+ */
+function chapterAudioTags(
+  bookDir: string,
+  metadata: BookMetadata,
+  chapter: { title: string; order: number },
+  generatedBy: string
+): AudioTags {
+  return {
+    title: chapter.title,
+    album: metadata.title,
+    artist: metadata.author,
+    track: chapter.order,
+    trackTotal: metadata.totalChapters,
+    year: metadata.publicationDate
+      ? String(metadata.publicationDate).slice(0, 4)
+      : undefined,
+    comment: generatedBy,
+    cover: metadata.cover ? path.join(bookDir, metadata.cover) : undefined,
+  };
+}
+
+// RIFF INFO sub-chunks are NUL-terminated and padded to an even size
+function infoSubChunk(id: string, value: string): Buffer {
+  const text = Buffer.from(`${value}\0`, "utf-8");
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "ascii");
+  header.writeUInt32LE(text.length, 4);
+  return Buffer.concat([header, text, Buffer.alloc(text.length % 2)]);
+}
+
+/**
+ * Replace the LIST/INFO chunk of a WAV file (and any "id3 " chunk, which
+ * would otherwise shadow it in some players). Other chunks are kept as-is.
+ */
+async function writeRiffInfo(file: string, tags: AudioTags): Promise<void> {
+  const buffer = await fs.readFile(file);
+  const chunks = readRiffChunks(buffer);
+  if (!chunks) throw new Error(`Not a WAV file: ${file}`);
+
+  const fields: Array<[string, string | undefined]> = [
+    ["INAM", tags.title],
+    ["IPRD", tags.album],
+    ["IART", tags.artist],
+    [
+      "ITRK",
+      tags.trackTotal ? `${tags.track}/${tags.trackTotal}` : String(tags.track),
+    ],
+    ["ICRD", tags.year],
+    ["IGNR", "Audiobook"],
+    ["ICMT", tags.comment],
+  ];
+  const info = Buffer.concat([
+    Buffer.from("INFO", "ascii"),
+    ...fields
+      .filter(([, value]) => value)
+      .map(([id, value]) => infoSubChunk(id, value!)),
+  ]);
+  const listHeader = Buffer.alloc(8);
+  listHeader.write("LIST", 0, "ascii");
+  listHeader.writeUInt32LE(info.length, 4);
+
+  const parts: Buffer[] = [buffer.subarray(0, 12)];
+  for (const chunk of chunks) {
+    const isInfo =
+      chunk.id === "LIST" &&
+      buffer.toString("ascii", chunk.offset + 8, chunk.offset + 12) === "INFO";
+    if (isInfo || chunk.id.toLowerCase() === "id3 ") continue;
+
+    // The tags go right after the format chunk, ahead of the samples
+    parts.push(
+      buffer.subarray(
+        chunk.offset,
+        chunk.offset + 8 + chunk.size + (chunk.size % 2)
+      )
+    );
+    if (chunk.id === "fmt ") parts.push(listHeader, info);
+  }
+
+  const output = Buffer.concat(parts);
+  output.writeUInt32LE(output.length - 8, 4);
+  // A data chunk whose size was left at 0 by a streaming writer is fixed too
+  const data = readRiffChunks(output)!.find((chunk) => chunk.id === "data");
+  if (data) output.writeUInt32LE(data.size, data.offset + 4);
+  await fs.writeFile(file, output);
+}
+
+/**
+ * A FLAC picture block, base64-encoded, which is how Ogg Vorbis comments
+ * carry cover art (METADATA_BLOCK_PICTURE)
+ */
+async function pictureBlock(cover: string, mimeType: string): Promise<string> {
+  const image = await fs.readFile(cover);
+  const mime = Buffer.from(mimeType, "ascii");
+  const block = Buffer.alloc(32 + mime.length + image.length);
+  let offset = block.writeUInt32BE(3, 0); // Front cover
+  offset = block.writeUInt32BE(mime.length, offset);
+  offset += mime.copy(block, offset);
+  // Empty description; width, height, depth and colors left unknown
+  offset = block.writeUInt32BE(0, offset);
+  offset += 16;
+  offset = block.writeUInt32BE(image.length, offset);
+  image.copy(block, offset);
+  return block.toString("base64");
+}
+
+/**
+ * Rewrite the container's tags with ffmpeg. Streams are copied, existing
+ * tags and cover art are dropped first, so running it again gives the same
+ * file.
+ */
+async function writeWithFfmpeg(
+  file: string,
+  format: TagFormat,
+  tags: AudioTags
+): Promise<void> {
+  const extension = path.extname(file);
+  const base = path.join(
+    path.dirname(file),
+    `.${path.basename(file, extension)}`
+  );
+  const metadataFile = `${base}.ffmetadata`;
+  const partialPath = `${base}.tagging${extension}`;
+
+  const values: Record<string, unknown> = {
+    title: tags.title,
+    album: tags.album,
+    artist: tags.artist,
+    album_artist: tags.artist,
+    date: tags.year,
+    genre: "Audiobook",
+    comment: tags.comment,
+  };
+  if (format === "vorbis") {
+    values.track = tags.track;
+    values.TRACKTOTAL = tags.trackTotal;
+  } else {
+    values.track = tags.trackTotal
+      ? `${tags.track}/${tags.trackTotal}`
+      : tags.track;
+  }
+
+  const coverType = tags.cover
+    ? COVER_TYPES[path.extname(tags.cover).toLowerCase()]
+    : undefined;
+  const hasCover =
+    coverType !== undefined && (await fs.pathExists(tags.cover!));
+  // The Ogg muxer cannot take a picture stream, so the cover goes in a comment
+  if (hasCover && format === "vorbis" && extension !== ".flac") {
+    values.METADATA_BLOCK_PICTURE = await pictureBlock(tags.cover!, coverType!);
+  }
+
+  await fs.writeFile(
+    metadataFile,
+    [
+      ";FFMETADATA1",
+      ...Object.entries(values)
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(([key, value]) => `${key}=${escapeMetadata(value)}`),
+    ].join("\n") + "\n"
+  );
+
+  const attachCover = hasCover && values.METADATA_BLOCK_PICTURE === undefined;
+  const command = ffmpeg().input(file).input(metadataFile);
+  if (attachCover) command.input(tags.cover!);
+  command
+    .outputOptions([
+      "-map",
+      "0:a",
+      "-map_metadata",
+      "1",
+      "-c:a",
+      "copy",
+      ...(attachCover
+        ? ["-map", "2:v", "-c:v", "copy", "-disposition:v:0", "attached_pic"]
+        : []),
+      ...(format === "id3v2"
+        ? ["-id3v2_version", "3", "-write_id3v1", "0"]
+        : []),
+    ])
+    .output(partialPath);
+
+  try {
+    await runFfmpeg(command, "tagging");
+    await fs.move(partialPath, file, { overwrite: true });
+  } finally {
+    await fs.remove(metadataFile);
+    await fs.remove(partialPath);
+  }
+}
+
+/**
+ * Write tags into an audio file in the container's native format: ID3v2 for
+ * MP3, Vorbis comments for FLAC and Opus, MP4 atoms for M4A, LIST/INFO for
+ * WAV. Returns the format used, or null when the container cannot hold tags
+ * (raw AAC).
+ */
+async function writeAudioTags(
+  file: string,
+  tags: AudioTags
+): Promise<TagFormat | null> {
+  const format = TAG_FORMATS[path.extname(file).toLowerCase()];
+  if (!format) return null;
+
+  if (format === "riff-info") {
+    await writeRiffInfo(file, tags);
+  } else {
+    await writeWithFfmpeg(file, format, tags);
+  }
+  return format;
+}
+
+/**
+ * "Generated with <provider>, model <model>, voice <voice>"
+ */
+function generatedByComment(
+  provider: TTSProvider,
+  model?: string,
+  voice?: string
+): string {
+  const config = ConfigManager.getProviderConfig(provider);
+  return [
+    `Generated with ${config.provider.display_name}`,
+    `model ${model || config.default_settings.model}`,
+    `voice ${voice || config.default_settings.voice}`,
+  ].join(", ");
+}
+
+export {
+  writeAudioTags,
+  chapterAudioTags,
+  generatedByComment,
+  AudioTags,
+  TagFormat,
+};
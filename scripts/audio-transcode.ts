@@ -0,0 +1,91 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { AudioFormat } from "../config/types";
+import { runFfmpeg } from "./audio-files";
+
+// AudioFormat codec names to ffmpeg encoders
+const ENCODERS: Record<string, string> = {
+  mp3: "libmp3lame",
+  opus: "libopus",
+  aac: "aac",
+  flac: "flac",
+  vorbis: "libvorbis",
+  pcm: "pcm_s16le",
+};
+
+/**
+ * Encoder for an audio format, from its codec or, failing that, its
+ * extension
+ */
+function encoderFor(format: AudioFormat): string {
+  const encoder =
+    ENCODERS[(format.codec || "").toLowerCase()] ||
+    ENCODERS[format.extension === "wav" ? "pcm" : format.extension];
+  if (!encoder) {
+    throw new Error(
+      `No encoder for audio format ${format.format} (${format.extension})`
+    );
+  }
+  return encoder;
+}
+
+/**
+ * Whether a file in `from` has to be re-encoded to become `to`
+ */
+function needsTranscoding(from: AudioFormat, to: AudioFormat): boolean {
+  return (
+    from.extension !== to.extension ||
+    (from.codec || "") !== (to.codec || "") ||
+    (to.sample_rate !== undefined && from.sample_rate !== to.sample_rate) ||
+    (to.channels !== undefined && from.channels !== to.channels) ||
+    (to.bit_rate !== undefined && from.bit_rate !== to.bit_rate)
+  );
+}
+
+/**
+ * Re-encode an audio file into the given format with its declared codec,
+ * bit rate, sample rate and channel count, optionally through a chain of
+ * audio filters. The output is written next to its destination and moved
+ * into place once ffmpeg succeeds. Resolves with ffmpeg's log.
+ */
+async function transcodeAudio(
+  inputPath: string,
+  outputPath: string,
+  format: AudioFormat,
+  audioFilters: string[] = []
+): Promise<string> {
+  if (path.extname(outputPath).slice(1).toLowerCase() !== format.extension) {
+    throw new Error(
+      `Output ${path.basename(outputPath)} does not match the .${
+        format.extension
+      } extension of ${format.format}`
+    );
+  }
+
+  const partialPath = path.join(
+    path.dirname(outputPath),
+    `.${path.basename(outputPath, path.extname(outputPath))}.transcoding.${
+      format.extension
+    }`
+  );
+  const command = ffmpeg()
+    .input(inputPath)
+    .noVideo()
+    .audioCodec(encoderFor(format));
+  if (audioFilters.length > 0) command.audioFilters(audioFilters);
+  if (format.bit_rate) command.audioBitrate(format.bit_rate);
+  if (format.sample_rate) command.audioFrequency(format.sample_rate);
+  if (format.channels) command.audioChannels(format.channels);
+  command.output(partialPath);
+
+  try {
+    const log = await runFfmpeg(command, `transcoding to ${format.extension}`);
+    await fs.move(partialPath, outputPath, { overwrite: true });
+    return log;
+  } finally {
+    await fs.remove(partialPath);
+  }
+}
+
+export { transcodeAudio, needsTranscoding, encoderFor };
@@ -11,6 +11,7 @@ interface BatchOptions {
   outputDir?: string;
   audioGeneration: boolean;
   skipExisting: boolean;
+  overwrite: boolean;
   configPath?: string;
   fileTypes: string[];
   parallel: boolean;
@@ -70,12 +71,10 @@ class BatchProcessor {
         chapterNaming: "both",
         includeFullText: true,
         cleanupTemp: true,
+        overwrite: this.options.overwrite,
       });
 
-      const processedBookDir = await processor.convertEpubToMarkdown(
-        bookPath,
-        bookName
-      );
+      const processedBookDir = await processor.convertBook(bookPath, bookName);
       console.log(chalk.green(`✅ Converted: ${bookName}`));
 
       // Generate audio if requested
@@ -197,7 +196,7 @@ const program = new Command();
 program
   .name("batch-process")
   .description(
-    "Batch process multiple books (EPUB, PDF, etc.) to markdown and audio"
+    "Batch process multiple books (EPUB, PDF, DOCX) to markdown and audio"
   )
   .version("1.0.0");
 
@@ -214,11 +213,16 @@ program
     "Skip books that have already been processed",
     false
   )
+  .option(
+    "--overwrite",
+    "Replace chapter files edited since the last conversion",
+    false
+  )
   .option("-c, --config <path>", "Path to TTS configuration file")
   .option(
     "-t, --types <types>",
     "File types to process (comma-separated)",
-    "epub,pdf"
+    "epub,pdf,docx"
   )
   .option(
     "-p, --parallel",
@@ -232,6 +236,7 @@ program
       outputDir: options.output ? path.resolve(options.output) : undefined,
       audioGeneration: options.audio,
       skipExisting: options.skipExisting,
+      overwrite: options.overwrite,
       configPath: options.config ? path.resolve(options.config) : undefined,
       fileTypes: options.types.split(",").map((t: string) => t.trim()),
       parallel: options.parallel,
@@ -278,7 +283,7 @@ Examples:
   $ npm run batch-process ./my-books -t epub,pdf -p     # Process EPUB and PDF files in parallel
   $ npm run batch-process ./my-books -a -c ./my-tts.yml # Custom TTS config
 
-Supported file types: epub, pdf (more coming soon)
+Supported file types: epub, pdf, docx
 
 Environment Variables:
   OPENAI_API_KEY     - Required for OpenAI TTS
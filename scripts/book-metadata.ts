@@ -0,0 +1,26 @@
+import { Creator, Identifier, Series } from "./epub-package";
+
+// metadata.yml, as written by the converter and read by every later stage
+interface BookMetadata {
+  title: string;
+  subtitle?: string;
+  author: string;
+  creators?: Creator[];
+  contributors?: Creator[];
+  language: string;
+  publisher?: string;
+  publicationDate?: string;
+  description?: string;
+  isbn?: string;
+  identifiers?: Identifier[];
+  genre?: string;
+  subjects?: string[];
+  series?: Series;
+  rights?: string;
+  // Relative to the book directory, e.g. content/assets/cover.jpg
+  cover?: string;
+  totalChapters: number;
+  processingDate: string;
+}
+
+export { BookMetadata };
@@ -0,0 +1,225 @@
+import { SectionRole } from "../config/types";
+import { EncryptedResource } from "./epub-package";
+
+type ReportIssueType =
+  | "empty-chapter"
+  | "raw-html"
+  | "broken-link"
+  | "missing-image"
+  | "short-chapter"
+  | "long-chapter"
+  | "encrypted"
+  | "language-mismatch";
+
+interface ReportIssue {
+  type: ReportIssueType;
+  severity: "error" | "warning";
+  // Chapter file name; absent for book-level issues
+  chapter?: string;
+  message: string;
+}
+
+// A converted chapter as it is about to be written
+interface ReportChapter {
+  filename: string;
+  title: string;
+  role?: SectionRole;
+  markdown: string;
+  // xml:lang declared by the source document
+  language?: string;
+}
+
+interface ReportContext {
+  language: string;
+  minChapterWords: number;
+  maxChapterWords: number;
+  encryption: EncryptedResource[];
+  // True when an internal link in the given chapter file leads to a file
+  // that was written
+  linkExists: (filename: string, href: string) => boolean;
+  // True when an image link written into a chapter points at a real file
+  imageExists: (src: string) => boolean;
+}
+
+interface ConversionReport {
+  generatedAt: string;
+  language: string;
+  chapters: number;
+  drm: {
+    encrypted: boolean;
+    encryptedResources: string[];
+    obfuscatedFonts: string[];
+  };
+  summary: { errors: number; warnings: number } & Partial<
+    Record<ReportIssueType, number>
+  >;
+  issues: ReportIssue[];
+}
+
+// Roles that are short by nature and only checked for being empty
+const SHORT_ROLES: Array<SectionRole | undefined> = [
+  "cover",
+  "title-page",
+  "copyright",
+  "dedication",
+  "epigraph",
+  "part",
+  "acknowledgements",
+  "also-by",
+  "about-author",
+  "notes",
+  "toc",
+  "index",
+];
+
+const CODE = /```[\s\S]*?```|`[^`\n]+`/g;
+const HTML_TAG = /<\/?([a-zA-Z][\w-]*)(?:\s[^<>]*)?\/?>/g;
+const HTML_ENTITY = /&(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);/g;
+const MARKDOWN_LINK = /(!?)\[((?:[^\]\\]|\\.)*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+function primaryLanguage(tag: string): string {
+  return tag.split(/[-_]/)[0].toLowerCase();
+}
+
+function countWords(markdown: string): number {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+function checkChapter(
+  chapter: ReportChapter,
+  context: ReportContext
+): ReportIssue[] {
+  const issues: ReportIssue[] = [];
+  const add = (
+    type: ReportIssueType,
+    severity: ReportIssue["severity"],
+    message: string
+  ) => issues.push({ type, severity, chapter: chapter.filename, message });
+
+  const text = chapter.markdown.replace(CODE, "");
+  const body = text.replace(/^#{1,6}\s.*$/gm, "");
+  const words = countWords(body);
+  const hasImage = /!\[[^\]]*\]\([^)]*\)/.test(body);
+
+  if (words === 0 && !hasImage && chapter.role !== "part") {
+    add("empty-chapter", "error", `"${chapter.title}" has no text`);
+  } else if (!SHORT_ROLES.includes(chapter.role)) {
+    if (context.minChapterWords > 0 && words < context.minChapterWords) {
+      add(
+        "short-chapter",
+        "warning",
+        `"${chapter.title}" has only ${words} words`
+      );
+    }
+    if (context.maxChapterWords > 0 && words > context.maxChapterWords) {
+      add(
+        "long-chapter",
+        "warning",
+        `"${chapter.title}" has ${words} words (limit ${context.maxChapterWords})`
+      );
+    }
+  }
+
+  const tags = new Set(
+    Array.from(text.matchAll(HTML_TAG), (match) => match[1].toLowerCase())
+  );
+  const entities = new Set(Array.from(text.matchAll(HTML_ENTITY), (m) => m[0]));
+  if (tags.size > 0 || entities.size > 0) {
+    const found = [
+      ...Array.from(tags, (tag) => `<${tag}>`),
+      ...Array.from(entities),
+    ];
+    add("raw-html", "warning", `Leftover HTML: ${found.join(", ")}`);
+  }
+
+  const brokenLinks = new Set<string>();
+  const missingImages = new Set<string>();
+  for (const match of text.matchAll(MARKDOWN_LINK)) {
+    const [, bang, , target] = match;
+    if (/^(https?|mailto|tel|data):/i.test(target)) continue;
+
+    if (bang) {
+      if (!context.imageExists(target)) missingImages.add(target);
+    } else if (!context.linkExists(chapter.filename, target)) {
+      brokenLinks.add(target);
+    }
+  }
+  brokenLinks.forEach((target) =>
+    add("broken-link", "warning", `Link target not found: ${target}`)
+  );
+  missingImages.forEach((src) =>
+    add("missing-image", "error", `Image not found: ${src}`)
+  );
+
+  if (
+    chapter.language &&
+    primaryLanguage(chapter.language) !== primaryLanguage(context.language)
+  ) {
+    add(
+      "language-mismatch",
+      "warning",
+      `Declared language ${chapter.language} differs from the book's ${context.language}`
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Check converted chapters for the usual signs of a bad conversion: empty or
+ * oddly sized chapters, raw HTML left in the Markdown, unresolved links and
+ * images, foreign-language sections, and encrypted resources.
+ */
+function buildConversionReport(
+  chapters: ReportChapter[],
+  context: ReportContext
+): ConversionReport {
+  const encrypted = context.encryption.filter((r) => !r.fontObfuscation);
+  const issues: ReportIssue[] = [];
+
+  if (encrypted.length > 0) {
+    issues.push({
+      type: "encrypted",
+      severity: "error",
+      message: `${encrypted.length} resource${
+        encrypted.length === 1 ? " is" : "s are"
+      } DRM-encrypted and cannot be converted`,
+    });
+  }
+  chapters.forEach((chapter) => issues.push(...checkChapter(chapter, context)));
+
+  const summary: ConversionReport["summary"] = {
+    errors: issues.filter((issue) => issue.severity === "error").length,
+    warnings: issues.filter((issue) => issue.severity === "warning").length,
+  };
+  for (const issue of issues) {
+    summary[issue.type] = (summary[issue.type] || 0) + 1;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    language: context.language,
+    chapters: chapters.length,
+    drm: {
+      encrypted: encrypted.length > 0,
+      encryptedResources: encrypted.map((r) => r.path),
+      obfuscatedFonts: context.encryption
+        .filter((r) => r.fontObfuscation)
+        .map((r) => r.path),
+    },
+    summary,
+    issues,
+  };
+}
+
+export {
+  buildConversionReport,
+  ConversionReport,
+  ReportChapter,
+  ReportContext,
+  ReportIssue,
+  ReportIssueType,
+};
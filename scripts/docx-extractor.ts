@@ -0,0 +1,166 @@
+import AdmZip from "adm-zip";
+import * as cheerio from "cheerio";
+import mammoth from "mammoth";
+
+interface DocxSection {
+  title: string;
+  html: string;
+}
+
+interface DocxImage {
+  // File name under content/assets
+  name: string;
+  data: Buffer;
+}
+
+interface DocxCoreProperties {
+  title?: string;
+  author?: string;
+  description?: string;
+  subject?: string;
+  language?: string;
+  created?: string;
+}
+
+interface ExtractedDocx {
+  properties: DocxCoreProperties;
+  // Text of the first "Title"-styled paragraph, used when core properties lack a title
+  documentTitle?: string;
+  sections: DocxSection[];
+  // Embedded images, referenced from the sections as ../assets/<name>
+  images: DocxImage[];
+  warnings: string[];
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/svg+xml": ".svg",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+  "image/tiff": ".tif",
+};
+
+// Manuscript styles beyond mammoth's defaults (Heading 1-6 already map to h1-h6)
+const MANUSCRIPT_STYLE_MAP = [
+  "p[style-name='Title'] => h1.manuscript-title:fresh",
+  "p[style-name='Subtitle'] => p.manuscript-subtitle:fresh",
+  "p[style-name='Chapter Title'] => h1:fresh",
+  "p[style-name='Block Quote'] => blockquote > p:fresh",
+  "p[style-name='Quote'] => blockquote > p:fresh",
+];
+
+class DocxExtractor {
+  async extract(docxPath: string): Promise<ExtractedDocx> {
+    const images: DocxImage[] = [];
+    const result = await mammoth.convertToHtml(
+      { path: docxPath },
+      {
+        styleMap: MANUSCRIPT_STYLE_MAP,
+        // Embedded images are written out as files (like EPUB images) rather
+        // than inlined as data URIs; links are relative to the chapter file
+        convertImage: mammoth.images.imgElement(async (image) => {
+          const extension = IMAGE_EXTENSIONS[image.contentType] || "";
+          const name = `image-${images.length + 1}${extension}`;
+          images.push({ name, data: await image.readAsBuffer() });
+          return { src: `../assets/${name}` };
+        }),
+      }
+    );
+
+    const { sections, documentTitle } = this.splitOnHeadings(result.value);
+
+    return {
+      properties: this.readCoreProperties(docxPath),
+      documentTitle,
+      sections,
+      images,
+      warnings: result.messages.map((message) => message.message),
+    };
+  }
+
+  private readCoreProperties(docxPath: string): DocxCoreProperties {
+    const zip = new AdmZip(docxPath);
+    const coreEntry = zip.getEntry("docProps/core.xml");
+    if (!coreEntry) {
+      return {};
+    }
+
+    const $ = cheerio.load(coreEntry.getData().toString("utf-8"), {
+      xmlMode: true,
+    });
+    const read = (tag: string): string | undefined => {
+      // cheerio needs the namespace colon escaped in selectors
+      const value = $(tag.replace(":", "\\:")).first().text().trim();
+      return value.length > 0 ? value : undefined;
+    };
+
+    return {
+      title: read("dc:title"),
+      author: read("dc:creator"),
+      description: read("dc:description"),
+      subject: read("dc:subject"),
+      language: read("dc:language"),
+      created: read("dcterms:created")?.split("T")[0],
+    };
+  }
+
+  private splitOnHeadings(html: string): {
+    sections: DocxSection[];
+    documentTitle?: string;
+  } {
+    const $ = cheerio.load(`<body>${html}</body>`);
+    const sections: DocxSection[] = [];
+    let documentTitle: string | undefined;
+    let current: { title: string; parts: string[] } = { title: "", parts: [] };
+
+    const flush = () => {
+      const content = current.parts.join("\n").trim();
+      if (current.title || content) {
+        sections.push({ title: current.title, html: content });
+      }
+    };
+
+    $("body")
+      .children()
+      .each((_, element) => {
+        const $element = $(element);
+
+        // The manuscript title belongs in metadata, not in the first chapter
+        if ($element.is("h1.manuscript-title, p.manuscript-subtitle")) {
+          if ($element.is("h1") && !documentTitle) {
+            documentTitle = $element.text().replace(/\s+/g, " ").trim();
+          }
+          return;
+        }
+
+        if (!$element.is("h1, h2")) {
+          current.parts.push($.html(element));
+          return;
+        }
+
+        const headingText = $element.text().replace(/\s+/g, " ").trim();
+
+        // A Heading 1 directly followed by Heading 2 ("Part One" / "Chapter 1") is one title
+        if (current.title && current.parts.length === 0) {
+          current.title = `${current.title}: ${headingText}`;
+          return;
+        }
+
+        flush();
+        current = { title: headingText, parts: [] };
+      });
+    flush();
+
+    return { sections, documentTitle };
+  }
+}
+
+export {
+  DocxExtractor,
+  ExtractedDocx,
+  DocxSection,
+  DocxImage,
+  DocxCoreProperties,
+};
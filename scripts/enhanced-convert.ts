@@ -1,26 +1,56 @@
 import EPub from "epub";
+import * as cheerio from "cheerio";
+import * as crypto from "crypto";
 import * as fs from "fs-extra";
 import * as path from "path";
 import TurndownService from "turndown";
 import * as YAML from "yaml";
+import { PdfExtractor } from "./pdf-extractor";
+import { DocxExtractor } from "./docx-extractor";
+import {
+  decodeHref,
+  EpubPackage,
+  ManifestItem,
+  NavEntry,
+} from "./epub-package";
+import { BookMetadata } from "./book-metadata";
+import { collectNotes, NOTE_ATTR, NOTEREF_ATTR } from "./epub-notes";
+import { addEpubRules, TurndownRuleOptions } from "./turndown-rules";
+import { addFrontMatter, stripFrontMatter } from "./front-matter";
+import { buildConversionReport } from "./conversion-report";
+import {
+  cleanupTypography,
+  TypographyCounts,
+  TypographyOptions,
+} from "./typography";
+import {
+  roleFromContent,
+  roleFromEpubType,
+  roleFromFilename,
+} from "./section-roles";
+import { SectionRole } from "../config/types";
+
+interface TocSection {
+  title: string;
+  href: string;
+  sections?: TocSection[];
+}
+
+interface TocPart {
+  title: string;
+  href?: string;
+  chapters: number[];
+}
 
 interface Chapter {
   id: string;
   title?: string;
   order: number;
   filename: string;
-}
-
-interface BookMetadata {
-  title: string;
-  author: string;
-  language: string;
-  publicationDate?: string;
-  description?: string;
-  isbn?: string;
-  genre?: string;
-  totalChapters: number;
-  processingDate: string;
+  href?: string;
+  part?: string;
+  role?: SectionRole;
+  sections?: TocSection[];
 }
 
 interface TableOfContents {
@@ -29,34 +59,105 @@ interface TableOfContents {
     author: string;
     totalChapters: number;
   };
+  parts?: TocPart[];
   chapters: Chapter[];
 }
 
+interface ChapterSource {
+  id: string;
+  title: string;
+  markdown: string;
+  href?: string;
+  part?: { title: string; href?: string };
+  role?: SectionRole;
+  sections?: TocSection[];
+  // Language declared by the source document, if any
+  language?: string;
+  // Hash of the input this chapter came from (XHTML fragment, extracted PDF
+  // text or DOCX HTML), compared across conversions
+  sourceHash?: string;
+  // Element ids in the source fragment, so links to them find this chapter
+  anchors?: string[];
+}
+
+// Resolves a link in a source document to a document path and fragment
+type LinkResolver = (
+  fromHref: string,
+  href: string
+) => { path: string; fragment?: string };
+
+// A chapter-level navigation entry, resolved against the part that contains it
+interface PlannedChapter {
+  title: string;
+  href: string;
+  fragment?: string;
+  part?: { title: string; href?: string };
+  sections: TocSection[];
+  isPartPage?: boolean;
+}
+
 interface ProcessingConfig {
   outputFormats: string[];
   chapterNaming: "numbered" | "titled" | "both";
   includeFullText: boolean;
   cleanupTemp: boolean;
+  // Rewrite chapters, toc.yml and metadata.yml even when they were edited by hand
+  overwrite: boolean;
+  // EPUB sections above this are split at headings (0 disables splitting)
+  maxChapterWords: number;
+  // Untitled or tiny EPUB sections below this join the preceding chapter (0 disables merging)
+  minChapterWords: number;
+  // Custom Turndown rules; each is on unless set to false
+  turndownRules: Partial<TurndownRuleOptions>;
+  // Typographic cleanup before chapters are written; false skips it
+  typography: Partial<TypographyOptions> | false;
 }
 
+// processing/conversion-state.yml: hashes from the last conversion, keyed by
+// path relative to the book directory
+interface ConversionState {
+  files: Record<string, { sourceHash?: string; outputHash: string }>;
+}
+
+type TrackedWriteResult = "written" | "unchanged" | "edited" | "conflict";
+
+// Silent reading speed behind the front matter's readingTimeMinutes
+const READING_WORDS_PER_MINUTE = 230;
+
 class BookProcessor {
   private turndownService: TurndownService;
   private config: ProcessingConfig;
 
   constructor(config: Partial<ProcessingConfig> = {}) {
-    this.turndownService = new TurndownService({
-      headingStyle: "atx",
-      codeBlockStyle: "fenced",
-      bulletListMarker: "-",
-    });
-
     this.config = {
       outputFormats: ["markdown", "text"],
       chapterNaming: "both",
       includeFullText: true,
       cleanupTemp: true,
+      overwrite: false,
+      maxChapterWords: 12000,
+      minChapterWords: 150,
+      turndownRules: {},
+      typography: {},
       ...config,
     };
+
+    this.turndownService = new TurndownService({
+      headingStyle: "atx",
+      codeBlockStyle: "fenced",
+      bulletListMarker: "-",
+    });
+
+    // Noterefs numbered by epubToMarkdown become Markdown footnote references
+    this.turndownService.addRule("footnoteReference", {
+      filter: (node) =>
+        node.nodeName === "A" &&
+        /^\d+$/.test(node.getAttribute(NOTEREF_ATTR) || ""),
+      replacement: (_, node) =>
+        `[^${(node as HTMLElement).getAttribute(NOTEREF_ATTR)}]`,
+    });
+
+    addEpubRules(this.turndownService, this.config.turndownRules);
   }
 
   private sanitizeFilename(text: string): string {
@@ -117,17 +218,12 @@ class BookProcessor {
     console.log(logMessage.trim());
   }
 
-  async convertEpubToMarkdown(
-    epubPath: string,
+  private async prepareBookDirectory(
+    sourcePath: string,
     customBookName?: string
-  ): Promise<string> {
-    if (!(await fs.pathExists(epubPath))) {
-      throw new Error(`EPUB file not found: ${epubPath}`);
-    }
-
-    const epub = new EPub(epubPath);
-    const bookName =
-      customBookName || path.basename(epubPath, path.extname(epubPath));
+  ): Promise<{ bookName: string; bookDir: string }> {
+    const extension = path.extname(sourcePath);
+    const bookName = customBookName || path.basename(sourcePath, extension);
     const bookSlug = this.sanitizeFilename(bookName);
     const bookDir = path.join(process.cwd(), "books", bookSlug);
 
@@ -135,154 +231,133 @@ class BookProcessor {
     await this.createDirectoryStructure(bookDir);
     await this.logProcessing(bookDir, `Starting conversion of: ${bookName}`);
 
-    // Copy original epub to source directory if not already there
-    const sourceEpubPath = path.join(bookDir, "source", `${bookSlug}.epub`);
-    if (path.resolve(epubPath) !== path.resolve(sourceEpubPath)) {
-      await fs.copy(epubPath, sourceEpubPath);
+    // Copy original file to source directory if not already there
+    const sourceCopyPath = path.join(
+      bookDir,
+      "source",
+      `${bookSlug}${extension.toLowerCase()}`
+    );
+    const formatLabel = extension.slice(1).toUpperCase();
+    if (path.resolve(sourcePath) !== path.resolve(sourceCopyPath)) {
+      await fs.copy(sourcePath, sourceCopyPath);
       await this.logProcessing(
         bookDir,
-        `Copied source EPUB to: ${sourceEpubPath}`
+        `Copied source ${formatLabel} to: ${sourceCopyPath}`
       );
     } else {
       await this.logProcessing(
         bookDir,
-        `Source EPUB already in place: ${sourceEpubPath}`
+        `Source ${formatLabel} already in place: ${sourceCopyPath}`
       );
     }
 
-    return new Promise((resolve, reject) => {
-      epub.on("end", async () => {
-        try {
-          // Extract and save metadata
-          const metadata: BookMetadata = {
-            title: epub.metadata.title || bookName,
-            author: epub.metadata.creator || "Unknown Author",
-            language: epub.metadata.language || "en",
-            publicationDate: epub.metadata.date,
-            description: epub.metadata.description,
-            isbn: (epub.metadata as any).ISBN,
-            totalChapters: epub.flow.length,
-            processingDate: new Date().toISOString(),
-          };
-
-          await fs.writeFile(
-            path.join(bookDir, "metadata.yml"),
-            YAML.stringify(metadata, { indent: 2 })
-          );
+    return { bookName, bookDir };
+  }
 
-          // Process chapters
-          const chapters: Chapter[] = [];
-          const fullTextParts: string[] = [];
+  async convertBook(
+    sourcePath: string,
+    customBookName?: string
+  ): Promise<string> {
+    const extension = path.extname(sourcePath).toLowerCase();
 
-          for (let i = 0; i < epub.flow.length; i++) {
-            const chapterData = epub.flow[i];
-            const filename = this.generateChapterFilename(chapterData, i);
+    switch (extension) {
+      case ".epub":
+        return this.convertEpubToMarkdown(sourcePath, customBookName);
+      case ".pdf":
+        return this.convertPdfToMarkdown(sourcePath, customBookName);
+      case ".docx":
+        return this.convertDocxToMarkdown(sourcePath, customBookName);
+      default:
+        throw new Error(`Unsupported book format: ${extension || sourcePath}`);
+    }
+  }
 
-            chapters.push({
-              id: chapterData.id,
-              title: chapterData.title || `Chapter ${i + 1}`,
-              order: i + 1,
-              filename: filename,
-            });
-          }
+  async convertEpubToMarkdown(
+    epubPath: string,
+    customBookName?: string
+  ): Promise<string> {
+    if (!(await fs.pathExists(epubPath))) {
+      throw new Error(`EPUB file not found: ${epubPath}`);
+    }
 
-          // Create table of contents
-          const toc: TableOfContents = {
-            book: {
-              title: metadata.title,
-              author: metadata.author,
-              totalChapters: metadata.totalChapters,
-            },
-            chapters: chapters,
-          };
+    const epub = new EPub(epubPath);
+    const { bookName, bookDir } = await this.prepareBookDirectory(
+      epubPath,
+      customBookName
+    );
 
-          await fs.writeFile(
-            path.join(bookDir, "toc.yml"),
-            YAML.stringify(toc, { indent: 2 })
-          );
+    return new Promise((resolve, reject) => {
+      epub.on("end", async () => {
+        try {
+          const pkg = new EpubPackage(epubPath);
 
-          // Process each chapter
-          const chapterPromises = epub.flow.map((chapterData, i) => {
-            return new Promise<void>((chapterResolve, chapterReject) => {
-              epub.getChapter(
-                chapterData.id,
-                async (error: Error | null, html: string) => {
-                  if (error) {
-                    await this.logProcessing(
-                      bookDir,
-                      `Error processing chapter ${chapterData.id}: ${error.message}`,
-                      "error"
-                    );
-                    chapterReject(error);
-                    return;
-                  }
-
-                  try {
-                    // Convert HTML to Markdown
-                    const markdown = this.turndownService.turndown(html);
-                    const chapterFileName = chapters[i].filename;
-
-                    // Add chapter header
-                    const chapterContent = `# ${chapters[i].title}\n\n${markdown}`;
-
-                    // Save individual chapter
-                    const chapterPath = path.join(
-                      bookDir,
-                      "content",
-                      "chapters",
-                      chapterFileName
-                    );
-                    await fs.writeFile(chapterPath, chapterContent);
-
-                    // Add to full text if enabled
-                    if (this.config.includeFullText) {
-                      fullTextParts[i] = chapterContent;
-                    }
-
-                    await this.logProcessing(
-                      bookDir,
-                      `Processed chapter: ${chapterFileName}`
-                    );
-                    chapterResolve();
-                  } catch (processingError) {
-                    await this.logProcessing(
-                      bookDir,
-                      `Error processing chapter content: ${processingError}`,
-                      "error"
-                    );
-                    chapterReject(processingError);
-                  }
-                }
-              );
-            });
-          });
-
-          // Wait for all chapters to be processed
-          await Promise.all(chapterPromises);
-
-          // Create full text file if enabled
-          if (this.config.includeFullText && fullTextParts.length > 0) {
-            const fullText = fullTextParts.join("\n\n---\n\n");
-            const fullTextHeader = `# ${metadata.title}\n*by ${metadata.author}*\n\n---\n\n`;
-
-            await fs.writeFile(
-              path.join(bookDir, "content", "full-text.md"),
-              fullTextHeader + fullText
-            );
-
-            await this.logProcessing(bookDir, "Created full-text.md");
+          // Zip path -> file name under content/assets, filled while chapters are read
+          const assets = new Map<string, string>();
+          const cover = pkg.findCoverImage();
+          if (cover) {
+            assets.set(cover.href, `cover${path.extname(cover.href)}`);
           }
 
-          // Generate plain text versions if requested
-          if (this.config.outputFormats.includes("text")) {
-            await this.generateTextVersions(bookDir, chapters);
-          }
+          const { sources, splitCount, mergedCount, notesDropped } =
+            this.buildEpubChapters(pkg, assets);
+          await this.logProcessing(
+            bookDir,
+            `Planned ${sources.length} chapters from ${pkg.spine.length} spine items` +
+              ` (${splitCount} oversized sections split, ${mergedCount} fragments merged,` +
+              ` ${notesDropped} endnote documents moved into footnotes)`
+          );
+          await this.writeAssets(
+            bookDir,
+            Array.from(assets, ([zipPath, name]) => ({
+              name,
+              data: pkg.readBuffer(zipPath),
+            }))
+          );
 
-          // Cleanup temp files if enabled
-          if (this.config.cleanupTemp) {
-            await fs.remove(path.join(bookDir, "processing", "temp"));
-            await fs.ensureDir(path.join(bookDir, "processing", "temp"));
-          }
+          // Extract and save metadata, preferring the full OPF reading
+          const opf = pkg.readMetadata();
+          const authors = opf.creators.filter((c) => c.role === "author");
+          const metadata: BookMetadata = {
+            title: opf.title || epub.metadata.title || bookName,
+            subtitle: opf.subtitle,
+            author:
+              authors.map((c) => c.name).join(", ") ||
+              epub.metadata.creator ||
+              "Unknown Author",
+            creators: opf.creators.length > 0 ? opf.creators : undefined,
+            contributors:
+              opf.contributors.length > 0 ? opf.contributors : undefined,
+            language: opf.language || epub.metadata.language || "en",
+            publisher: opf.publisher,
+            publicationDate: opf.date || epub.metadata.date,
+            description: opf.description || epub.metadata.description,
+            isbn: opf.identifiers.find((id) => id.type === "isbn")?.value,
+            identifiers:
+              opf.identifiers.length > 0 ? opf.identifiers : undefined,
+            genre: opf.subjects[0],
+            subjects: opf.subjects.length > 0 ? opf.subjects : undefined,
+            series: opf.series,
+            rights: opf.rights,
+            cover: cover
+              ? path.posix.join("content", "assets", assets.get(cover.href)!)
+              : undefined,
+            totalChapters: sources.length,
+            processingDate: new Date().toISOString(),
+          };
+
+          const chapters = await this.writeBookContent(
+            bookDir,
+            metadata,
+            sources,
+            (from, href) => pkg.resolveHref(from, href)
+          );
+          await this.writeConversionReport(
+            bookDir,
+            pkg,
+            metadata,
+            sources,
+            chapters
+          );
 
           await this.logProcessing(
             bookDir,
@@ -312,6 +387,1159 @@ class BookProcessor {
     });
   }
 
+  /**
+   * Turn the spine into chapter sources using the nav/NCX tree for titles,
+   * part grouping and subsections. Spine items holding several chapter-level
+   * nav entries are split at the entries' anchors.
+   */
+  private buildEpubChapters(
+    pkg: EpubPackage,
+    assets: Map<string, string>
+  ): {
+    sources: ChapterSource[];
+    splitCount: number;
+    mergedCount: number;
+    notesDropped: number;
+  } {
+    const planned = this.planChaptersFromNavigation(pkg.readNavigation());
+    const landmarks = pkg.readLandmarks();
+    const sources: ChapterSource[] = [];
+    // Sections titled only by position ("Chapter 7"), and those listed in the
+    // nav, which are never merged away
+    const untitled = new Set<ChapterSource>();
+    const listed = new Set<ChapterSource>();
+    let splitCount = 0;
+    let notesDropped = 0;
+
+    // Image references become links into content/assets, relative to the chapter file
+    const assetLink = (fromPath: string) => (src: string) => {
+      if (/^(data|https?):/i.test(src)) return undefined;
+
+      const target = pkg.resolveHref(fromPath, src).path;
+      if (!pkg.hasFile(target)) return undefined;
+
+      if (!assets.has(target)) {
+        assets.set(target, this.uniqueAssetName(target, assets));
+      }
+      return `../assets/${assets.get(target)}`;
+    };
+
+    const landmarkRole = (href: string, fragment?: string) =>
+      roleFromEpubType(
+        landmarks
+          .filter(
+            (landmark) =>
+              landmark.href === href &&
+              (!landmark.fragment || landmark.fragment === fragment)
+          )
+          .map((landmark) => landmark.type)
+          .join(" ")
+      );
+
+    const items = pkg.spine
+      .map((idref) => pkg.manifest.get(idref))
+      .filter(
+        (item): item is ManifestItem =>
+          !!item && /html/.test(item.mediaType) && pkg.hasFile(item.href)
+      );
+
+    // Notes can live in any spine file, so every document is loaded up front
+    const documents = new Map<string, cheerio.CheerioAPI>();
+    for (const item of items) {
+      documents.set(
+        item.href,
+        this.loadEpubDocument(pkg.readText(item.href), assetLink(item.href))
+      );
+    }
+    const notes = collectNotes(documents, (from, href) =>
+      pkg.resolveHref(from, href)
+    );
+
+    // Oversized sections become one chapter per heading; the first piece keeps
+    // the section's own id, role and (for nav entries) title
+    const addSource = (
+      source: Omit<ChapterSource, "markdown">,
+      html: string,
+      preferHeadingTitle = false
+    ) => {
+      const pieces = this.splitOnHeadings(html);
+      if (pieces.length > 1) splitCount++;
+
+      pieces.forEach((piece, k) => {
+        const sections = source.sections?.filter(
+          (section) =>
+            (this.pieceIndex(pieces, section.href) ?? 0) === k &&
+            section.href.split("#")[1] !== piece.anchor
+        );
+        const added: ChapterSource =
+          k === 0
+            ? {
+                ...source,
+                title: (preferHeadingTitle && piece.title) || source.title,
+                markdown: this.epubToMarkdown(piece.html, notes),
+                sourceHash: this.hashContent(piece.html),
+                anchors: this.elementIds(piece.html),
+              }
+            : {
+                id: `${source.id}-s${k + 1}`,
+                title: piece.title || `${source.title} (${k + 1})`,
+                markdown: this.epubToMarkdown(piece.html, notes),
+                sourceHash: this.hashContent(piece.html),
+                anchors: this.elementIds(piece.html),
+                href: piece.anchor
+                  ? `${source.href!.split("#")[0]}#${piece.anchor}`
+                  : source.href,
+                part: source.part,
+                language: source.language,
+              };
+        added.sections = sections && sections.length > 0 ? sections : undefined;
+        sources.push(added);
+      });
+    };
+
+    for (const item of items) {
+      const $ = documents.get(item.href)!;
+      const html = ($("body").html() || "").trim();
+      // Its notes are already footnotes in the chapters that cite them
+      if (this.isNotesOnly(html)) {
+        notesDropped++;
+        continue;
+      }
+      const epubType = $("body").attr("epub:type");
+      const language =
+        $("html").attr("xml:lang") ||
+        $("html").attr("lang") ||
+        $("body").attr("xml:lang") ||
+        $("body").attr("lang");
+      const entries = planned.filter((entry) => entry.href === item.href);
+      const segments = this.splitHtmlAtAnchors(
+        html,
+        entries.map((entry) => entry.fragment)
+      );
+
+      if (entries.length === 0) {
+        const role =
+          landmarkRole(item.href) ||
+          roleFromEpubType(epubType) ||
+          this.sectionEpubType(html) ||
+          roleFromFilename(item.href);
+
+        const title = this.firstHeading(html) || this.roleTitle(role);
+        const first = sources.length;
+        addSource(
+          {
+            id: item.id,
+            title: title || `Chapter ${sources.length + 1}`,
+            href: item.href,
+            role,
+            language,
+          },
+          html,
+          true
+        );
+        if (!title) untitled.add(sources[first]);
+        continue;
+      }
+
+      entries.forEach((entry, i) => {
+        const segment = segments[i];
+        if (segment === undefined) return;
+
+        const first = sources.length;
+        addSource(
+          {
+            id: entries.length > 1 ? `${item.id}-${i + 1}` : item.id,
+            title:
+              entry.title ||
+              this.firstHeading(segment) ||
+              `Chapter ${sources.length + 1}`,
+            href: entry.fragment
+              ? `${entry.href}#${entry.fragment}`
+              : entry.href,
+            part: entry.part,
+            role:
+              landmarkRole(entry.href, entry.fragment) ||
+              (entries.length === 1 ? roleFromEpubType(epubType) : undefined) ||
+              this.sectionEpubType(segment) ||
+              (entry.isPartPage ? "part" : undefined) ||
+              (entries.length === 1 ? roleFromFilename(item.href) : undefined),
+            sections: entry.sections.length > 0 ? entry.sections : undefined,
+            language,
+          },
+          segment
+        );
+        sources.slice(first).forEach((source) => listed.add(source));
+      });
+    }
+
+    // Spine items missing from the nav inherit the part they sit inside
+    sources.forEach((source, i) => {
+      if (source.part) return;
+      const previous = sources
+        .slice(0, i)
+        .reverse()
+        .find((s) => s.part);
+      const next = sources.slice(i + 1).find((s) => s.part);
+      if (previous?.part && previous.part.title === next?.part?.title) {
+        source.part = previous.part;
+      }
+    });
+
+    const merged = this.mergeFragments(sources, untitled, listed);
+    return {
+      sources: merged,
+      splitCount,
+      mergedCount: sources.length - merged.length,
+      notesDropped,
+    };
+  }
+
+  /**
+   * Whether a spine document holds nothing but collected notes and headings
+   */
+  private isNotesOnly(html: string): boolean {
+    const $ = cheerio.load(html, null, false);
+    if ($(`[${NOTE_ATTR}]`).length === 0) return false;
+
+    $(`[${NOTE_ATTR}], h1, h2, h3, h4, h5, h6`).remove();
+    return $.root().text().trim().length === 0 && $("img").length === 0;
+  }
+
+  /**
+   * Split HTML longer than maxChapterWords before its headings, using the
+   * highest heading level that occurs more than once. Pieces still too long
+   * are split again at the next level.
+   */
+  private splitOnHeadings(
+    html: string,
+    levels = ["h1", "h2", "h3"]
+  ): Array<{ html: string; title?: string; anchor?: string }> {
+    const max = this.config.maxChapterWords;
+    if (max <= 0 || this.countWords(cheerio.load(html).root().text()) <= max) {
+      return [{ html }];
+    }
+
+    const $ = cheerio.load(html, null, false);
+    const levelIndex = levels.findIndex((level) => $(level).length > 1);
+    if (levelIndex < 0) return [{ html }];
+
+    const headings = $(levels[levelIndex]).toArray();
+    const anchors = headings.map((heading) => $(heading).attr("id"));
+    const ids = headings.map((heading, i) => {
+      if (!anchors[i])
+        $(heading).attr("id", `split-${levels[levelIndex]}-${i}`);
+      return $(heading).attr("id")!;
+    });
+    const segments = this.splitHtmlAtAnchors($.html(), [undefined, ...ids]);
+
+    const pieces: Array<{ html: string; title?: string; anchor?: string }> = [];
+    segments.forEach((segment, i) => {
+      if (segment === undefined) return;
+      const piece = {
+        html: segment,
+        title:
+          i > 0
+            ? $(headings[i - 1])
+                .text()
+                .replace(/\s+/g, " ")
+                .trim()
+            : undefined,
+        anchor: i > 0 ? anchors[i - 1] : undefined,
+      };
+
+      // Text before the first heading joins it unless it is substantial
+      if (
+        i === 1 &&
+        pieces.length === 1 &&
+        this.countWords(cheerio.load(pieces[0].html).root().text()) <
+          this.config.minChapterWords
+      ) {
+        pieces[0] = { ...piece, html: pieces[0].html + segment };
+        return;
+      }
+      pieces.push(piece);
+    });
+
+    return pieces.flatMap((piece, i) => {
+      const subPieces = this.splitOnHeadings(
+        piece.html,
+        levels.slice(levelIndex + 1)
+      );
+      subPieces[0].title = piece.title;
+      subPieces[0].anchor = piece.anchor;
+      return subPieces;
+    });
+  }
+
+  private pieceIndex(
+    pieces: Array<{ html: string }>,
+    href: string
+  ): number | undefined {
+    const fragment = href.split("#")[1];
+    if (!fragment) return undefined;
+
+    const idPattern = new RegExp(
+      `\\sid\\s*=\\s*["']${fragment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}["']`
+    );
+    const index = pieces.findIndex((piece) => idPattern.test(piece.html));
+    return index >= 0 ? index : undefined;
+  }
+
+  /**
+   * Fold runs of tiny spine items missing from the nav (interstitials,
+   * fragments of a chapter split across files) into the chapter before them.
+   * Front and back matter, part pages and sections in another part are left
+   * alone.
+   */
+  private mergeFragments(
+    sources: ChapterSource[],
+    untitled: Set<ChapterSource>,
+    listed: Set<ChapterSource>
+  ): ChapterSource[] {
+    const min = this.config.minChapterWords;
+
+    const isBody = (source: ChapterSource) =>
+      (!source.role || source.role === "chapter") &&
+      !roleFromContent(source.title, source.markdown);
+
+    const merged: ChapterSource[] = [];
+    for (const source of sources) {
+      const parent = merged[merged.length - 1];
+      const mergeable =
+        min > 0 &&
+        parent &&
+        isBody(parent) &&
+        isBody(source) &&
+        !listed.has(source) &&
+        parent.part?.title === source.part?.title &&
+        this.countWords(source.markdown) < min;
+
+      if (!mergeable) {
+        merged.push(source);
+        continue;
+      }
+
+      // Titled fragments stay findable as a heading and a toc section
+      const titled =
+        !untitled.has(source) && !/^#{1,6}\s/.test(source.markdown.trimStart());
+      parent.markdown += `\n\n${titled ? `## ${source.title}\n\n` : ""}${
+        source.markdown
+      }`;
+      parent.sourceHash = this.hashContent(
+        `${parent.sourceHash}${source.sourceHash}`
+      );
+      parent.anchors = [...(parent.anchors || []), ...(source.anchors || [])];
+      if (!untitled.has(source) && source.href) {
+        parent.sections = [
+          ...(parent.sections || []),
+          { title: source.title, href: source.href, sections: source.sections },
+        ];
+      }
+    }
+
+    // Positional titles follow the final order; pages recognizable by their
+    // text ("Also by ...") are titled by role instead
+    merged.forEach((source, i) => {
+      if (untitled.has(source)) {
+        source.title =
+          this.roleTitle(roleFromContent(source.title, source.markdown)) ||
+          `Chapter ${i + 1}`;
+      }
+    });
+
+    return merged;
+  }
+
+  private elementIds(html: string): string[] {
+    return Array.from(
+      html.matchAll(/\sid\s*=\s*["']([^"']+)["']/g),
+      (match) => match[1]
+    );
+  }
+
+  /**
+   * Point Markdown links at source documents to the chapter file holding
+   * their target. Element ids do not survive conversion, so the fragment is
+   * dropped; links that resolve to no chapter are left for the report.
+   */
+  private rewriteChapterLinks(
+    source: ChapterSource,
+    sources: ChapterSource[],
+    chapters: Chapter[],
+    resolveLink: LinkResolver
+  ): string {
+    if (!source.href) return source.markdown;
+    const fromHref = source.href.split("#")[0];
+
+    return source.markdown.replace(
+      /(?<!!)\[((?:[^\]\\]|\\.)*)\]\(([^)\s]+)\)/g,
+      (match, text, href) => {
+        if (/^[a-z][a-z\d+.-]*:/i.test(href)) return match;
+
+        const target = resolveLink(fromHref, href);
+        const inDocument = sources
+          .map((candidate, i) => ({ candidate, i }))
+          .filter(
+            ({ candidate }) => candidate.href?.split("#")[0] === target.path
+          );
+        const found =
+          (target.fragment &&
+            (inDocument.find(
+              ({ candidate }) =>
+                candidate.href!.split("#")[1] === target.fragment
+            ) ||
+              inDocument.find(({ candidate }) =>
+                candidate.anchors?.includes(target.fragment!)
+              ))) ||
+          inDocument[0];
+        return found ? `[${text}](${chapters[found.i].filename})` : match;
+      }
+    );
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  private planChaptersFromNavigation(
+    entries: NavEntry[],
+    part?: { title: string; href?: string }
+  ): PlannedChapter[] {
+    const planned: PlannedChapter[] = [];
+
+    for (const entry of entries) {
+      // An entry whose children live in other files groups chapters (a part);
+      // one whose children stay in its own file is a chapter with subsections
+      const isPart = entry.children.some((child) => child.href !== entry.href);
+
+      if (!isPart) {
+        planned.push({
+          title: entry.title,
+          href: entry.href,
+          fragment: entry.fragment,
+          part,
+          sections: this.toTocSections(entry.children),
+        });
+        continue;
+      }
+
+      const partRef = {
+        title: entry.title,
+        href: entry.fragment ? `${entry.href}#${entry.fragment}` : entry.href,
+      };
+
+      // Keep the part's own title page when no child chapter starts in it
+      if (!entry.children.some((child) => child.href === entry.href)) {
+        planned.push({
+          title: entry.title,
+          href: entry.href,
+          fragment: entry.fragment,
+          part: partRef,
+          sections: [],
+          isPartPage: true,
+        });
+      }
+
+      planned.push(...this.planChaptersFromNavigation(entry.children, partRef));
+    }
+
+    return planned;
+  }
+
+  private toTocSections(entries: NavEntry[]): TocSection[] {
+    return entries.map((entry) => {
+      const section: TocSection = {
+        title: entry.title,
+        href: entry.fragment ? `${entry.href}#${entry.fragment}` : entry.href,
+      };
+      if (entry.children.length > 0) {
+        section.sections = this.toTocSections(entry.children);
+      }
+      return section;
+    });
+  }
+
+  private loadEpubDocument(
+    xhtml: string,
+    assetLink: (src: string) => string | undefined
+  ): cheerio.CheerioAPI {
+    const $ = cheerio.load(xhtml);
+    $("script, style").remove();
+
+    // Cover and plate pages often wrap the image in SVG, which Turndown drops
+    $("svg").each((_, element) => {
+      const image = $(element).find("image").first();
+      const href = image.attr("xlink:href") || image.attr("href");
+      if (href) {
+        const img = $("<img>").attr("src", href);
+        const label =
+          $(element).attr("aria-label") || $(element).find("title").text();
+        if (label) img.attr("alt", label.trim());
+        $(element).replaceWith(img);
+      }
+    });
+
+    $("img").each((_, element) => {
+      const src = $(element).attr("src");
+      const link = src ? assetLink(src) : undefined;
+      if (link) $(element).attr("src", link);
+    });
+
+    // Captions stay under their image as an italic line; they also stand in
+    // for missing alt text
+    $("figure").each((_, element) => {
+      const figcaption = $(element).find("figcaption").first();
+      const caption = figcaption.text().replace(/\s+/g, " ").trim();
+      if (!caption) return;
+
+      $(element)
+        .find("img")
+        .each((_, img) => {
+          if (!($(img).attr("alt") || "").trim()) $(img).attr("alt", caption);
+        });
+      figcaption.replaceWith($("<p>").append($("<em>").text(caption)));
+    });
+
+    return $;
+  }
+
+  /**
+   * Convert an EPUB section to Markdown with its noterefs as `[^n]` footnotes
+   * numbered per chapter. Notes printed inside the section move into the
+   * footnote definitions; endnote files keep their own copy.
+   */
+  private epubToMarkdown(html: string, notes: Map<string, string>): string {
+    const $ = cheerio.load(html, null, false);
+    const numbers = new Map<string, number>();
+
+    $(`[${NOTEREF_ATTR}]`).each((_, element) => {
+      const key = $(element).attr(NOTEREF_ATTR)!;
+      if (!notes.has(key)) {
+        $(element).removeAttr(NOTEREF_ATTR);
+        return;
+      }
+      if (!numbers.has(key)) numbers.set(key, numbers.size + 1);
+      $(element).attr(NOTEREF_ATTR, String(numbers.get(key)));
+    });
+
+    $(`[${NOTE_ATTR}]`)
+      .filter((_, element) => numbers.has($(element).attr(NOTE_ATTR)!))
+      .remove();
+
+    const markdown = this.turndownService.turndown($.html());
+    if (numbers.size === 0) return markdown;
+
+    const definitions = Array.from(numbers.entries()).map(([key, number]) => {
+      const text = this.turndownService
+        .turndown(notes.get(key)!)
+        .split("\n")
+        .map((line, i) => (i === 0 || !line ? line : `    ${line}`))
+        .join("\n");
+      return `[^${number}]: ${text}`;
+    });
+
+    return `${markdown}\n\n${definitions.join("\n\n")}`;
+  }
+
+  private uniqueAssetName(
+    zipPath: string,
+    assets: Map<string, string>
+  ): string {
+    const taken = new Set(assets.values());
+    const extension = path.posix.extname(zipPath).toLowerCase();
+    const stem =
+      this.sanitizeFilename(
+        path.posix.basename(zipPath, path.posix.extname(zipPath))
+      ) || "image";
+
+    let name = `${stem}${extension}`;
+    for (let n = 2; taken.has(name); n++) {
+      name = `${stem}-${n}${extension}`;
+    }
+    return name;
+  }
+
+  private async writeAssets(
+    bookDir: string,
+    assets: Array<{ name: string; data: Buffer }>
+  ): Promise<void> {
+    if (assets.length === 0) return;
+
+    const assetsDir = path.join(bookDir, "content", "assets");
+    await fs.emptyDir(assetsDir);
+
+    for (const { name, data } of assets) {
+      await fs.writeFile(path.join(assetsDir, name), data);
+    }
+
+    await this.logProcessing(
+      bookDir,
+      `Extracted ${assets.length} images to content/assets`
+    );
+  }
+
+  /**
+   * Role from the epub:type of the container holding most of the section's
+   * text, so inline noterefs or a trailing notes block do not decide it
+   */
+  private sectionEpubType(html: string): SectionRole | undefined {
+    const $ = cheerio.load(html);
+    const totalText = $.root().text().trim().length;
+
+    let role: SectionRole | undefined;
+    $("section, div, article, aside, header, nav")
+      .filter((_, element) => $(element).attr("epub:type") !== undefined)
+      .each((_, element) => {
+        const $element = $(element);
+        if ($element.text().trim().length >= totalText * 0.5) {
+          role = roleFromEpubType($element.attr("epub:type"));
+        }
+        return role === undefined;
+      });
+
+    return role;
+  }
+
+  /**
+   * Split body HTML at the elements carrying the given ids. Content before the
+   * first anchor stays with the first segment; anchors that cannot be found
+   * produce no segment so the text remains in the previous chapter.
+   */
+  private splitHtmlAtAnchors(
+    html: string,
+    fragments: Array<string | undefined>
+  ): Array<string | undefined> {
+    const positions = fragments.map((fragment, i) => {
+      if (!fragment) return i === 0 ? 0 : -1;
+
+      const idPattern = new RegExp(
+        `\\sid\\s*=\\s*["']${fragment.replace(
+          /[.*+?^${}()|[\]\\]/g,
+          "\\$&"
+        )}["']`
+      );
+      const match = idPattern.exec(html);
+      return match ? html.lastIndexOf("<", match.index) : -1;
+    });
+    positions[0] = 0;
+
+    const segments: Array<string | undefined> = [];
+    positions.forEach((start, i) => {
+      if (start < 0) {
+        segments.push(undefined);
+        return;
+      }
+      const nextStart = positions
+        .slice(i + 1)
+        .find((position) => position > start);
+      segments.push(html.slice(start, nextStart ?? html.length));
+    });
+
+    return segments;
+  }
+
+  private roleTitle(role: SectionRole | undefined): string | undefined {
+    if (!role || role === "chapter") return undefined;
+    return role
+      .split("-")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ");
+  }
+
+  private firstHeading(html: string): string | undefined {
+    const $ = cheerio.load(html);
+    const heading = $("h1, h2, h3").first().text().replace(/\s+/g, " ").trim();
+    return heading.length > 0 ? heading : undefined;
+  }
+
+  async convertPdfToMarkdown(
+    pdfPath: string,
+    customBookName?: string
+  ): Promise<string> {
+    if (!(await fs.pathExists(pdfPath))) {
+      throw new Error(`PDF file not found: ${pdfPath}`);
+    }
+
+    const { bookName, bookDir } = await this.prepareBookDirectory(
+      pdfPath,
+      customBookName
+    );
+
+    try {
+      const extractor = new PdfExtractor();
+      const pdf = await extractor.extract(pdfPath);
+
+      await this.logProcessing(
+        bookDir,
+        `Read ${pdf.info.pageCount} PDF pages, detected ${pdf.sections.length} chapters from ${pdf.chapterSource}`
+      );
+      if (pdf.strippedLines > 0) {
+        await this.logProcessing(
+          bookDir,
+          `Removed ${pdf.strippedLines} running header/footer and page number lines`
+        );
+      }
+
+      const metadata: BookMetadata = {
+        title: pdf.info.title || bookName,
+        author: pdf.info.author || "Unknown Author",
+        language: "en",
+        publicationDate: pdf.info.creationDate,
+        description: pdf.info.subject,
+        totalChapters: pdf.sections.length,
+        processingDate: new Date().toISOString(),
+      };
+
+      const sources: ChapterSource[] = pdf.sections.map((section, i) => ({
+        id: `page-${section.startPage + 1}`,
+        title: section.title || (i === 0 ? "Front Matter" : `Chapter ${i + 1}`),
+        markdown: section.markdown,
+        sourceHash: this.hashContent(section.markdown),
+      }));
+
+      await this.writeBookContent(bookDir, metadata, sources);
+
+      await this.logProcessing(bookDir, "Conversion completed successfully!");
+      return bookDir;
+    } catch (error) {
+      await this.logProcessing(bookDir, `Conversion failed: ${error}`, "error");
+      throw error;
+    }
+  }
+
+  async convertDocxToMarkdown(
+    docxPath: string,
+    customBookName?: string
+  ): Promise<string> {
+    if (!(await fs.pathExists(docxPath))) {
+      throw new Error(`DOCX file not found: ${docxPath}`);
+    }
+
+    const { bookName, bookDir } = await this.prepareBookDirectory(
+      docxPath,
+      customBookName
+    );
+
+    try {
+      const extractor = new DocxExtractor();
+      const docx = await extractor.extract(docxPath);
+
+      for (const warning of docx.warnings) {
+        await this.logProcessing(bookDir, `DOCX: ${warning}`, "warn");
+      }
+
+      const metadata: BookMetadata = {
+        title: docx.properties.title || docx.documentTitle || bookName,
+        author: docx.properties.author || "Unknown Author",
+        language: docx.properties.language || "en",
+        publicationDate: docx.properties.created,
+        description: docx.properties.description || docx.properties.subject,
+        totalChapters: docx.sections.length,
+        processingDate: new Date().toISOString(),
+      };
+
+      await this.writeAssets(bookDir, docx.images);
+
+      const sources: ChapterSource[] = docx.sections.map((section, i) => ({
+        id: `section-${i + 1}`,
+        title: section.title || (i === 0 ? "Front Matter" : `Chapter ${i + 1}`),
+        markdown: this.turndownService.turndown(section.html),
+        sourceHash: this.hashContent(section.html),
+      }));
+
+      await this.writeBookContent(bookDir, metadata, sources);
+
+      await this.logProcessing(bookDir, "Conversion completed successfully!");
+      return bookDir;
+    } catch (error) {
+      await this.logProcessing(bookDir, `Conversion failed: ${error}`, "error");
+      throw error;
+    }
+  }
+
+  private async writeBookContent(
+    bookDir: string,
+    metadata: BookMetadata,
+    sources: ChapterSource[],
+    resolveLink?: LinkResolver
+  ): Promise<Chapter[]> {
+    const state = await this.loadConversionState(bookDir);
+    const results = new Map<string, TrackedWriteResult>();
+
+    results.set(
+      "metadata.yml",
+      await this.writeTracked(
+        bookDir,
+        state,
+        "metadata.yml",
+        YAML.stringify(metadata, { indent: 2 })
+      )
+    );
+
+    // Clean titles too, since they become filenames and toc entries
+    const typographyCounts: TypographyCounts[] = sources.map((source) => {
+      if (this.config.typography === false) return {};
+
+      const title = cleanupTypography(source.title, this.config.typography);
+      const body = cleanupTypography(source.markdown, this.config.typography);
+      source.title = title.text;
+      source.markdown = body.text;
+
+      const counts: TypographyCounts = { ...body.counts };
+      for (const [label, count] of Object.entries(title.counts)) {
+        counts[label] = (counts[label] || 0) + count;
+      }
+      return counts;
+    });
+
+    const chapters: Chapter[] = sources.map((source, i) => ({
+      id: source.id,
+      title: source.title,
+      order: i + 1,
+      filename: this.generateChapterFilename(source, i),
+      href: source.href,
+      part: source.part?.title,
+      role:
+        source.role ||
+        roleFromContent(source.title, source.markdown) ||
+        "chapter",
+      sections: source.sections,
+    }));
+
+    for (let i = 0; i < chapters.length; i++) {
+      const counts = Object.entries(typographyCounts[i]);
+      if (counts.length > 0) {
+        await this.logProcessing(
+          bookDir,
+          `Typography cleanup in ${chapters[i].filename}: ${counts
+            .map(([label, count]) => `${label}=${count}`)
+            .join(", ")}`
+        );
+      }
+    }
+
+    // Links between source documents now lead to the chapter files
+    if (resolveLink) {
+      sources.forEach((source) => {
+        source.markdown = this.rewriteChapterLinks(
+          source,
+          sources,
+          chapters,
+          resolveLink
+        );
+      });
+    }
+
+    const roleCounts = new Map<string, number>();
+    chapters.forEach((chapter) =>
+      roleCounts.set(chapter.role!, (roleCounts.get(chapter.role!) || 0) + 1)
+    );
+    await this.logProcessing(
+      bookDir,
+      `Section roles: ${Array.from(roleCounts.entries())
+        .map(([role, count]) => `${role}=${count}`)
+        .join(", ")}`
+    );
+
+    // Group chapters under their parts, in reading order
+    const parts: TocPart[] = [];
+    sources.forEach((source, i) => {
+      if (!source.part) return;
+      let part = parts.find((p) => p.title === source.part!.title);
+      if (!part) {
+        part = {
+          title: source.part.title,
+          href: source.part.href,
+          chapters: [],
+        };
+        parts.push(part);
+      }
+      part.chapters.push(chapters[i].order);
+    });
+
+    // Create table of contents
+    const toc: TableOfContents = {
+      book: {
+        title: metadata.title,
+        author: metadata.author,
+        totalChapters: metadata.totalChapters,
+      },
+      parts: parts.length > 0 ? parts : undefined,
+      chapters: chapters,
+    };
+
+    results.set(
+      "toc.yml",
+      await this.writeTracked(
+        bookDir,
+        state,
+        "toc.yml",
+        YAML.stringify(toc, { indent: 2 })
+      )
+    );
+
+    // Write each chapter
+    const fullTextParts: string[] = [];
+    for (let i = 0; i < chapters.length; i++) {
+      const chapterFileName = chapters[i].filename;
+
+      // Front matter gives tools reading a single chapter file the context
+      const wordCount = this.countWords(sources[i].markdown);
+      const convertedContent = addFrontMatter(
+        {
+          book: path.basename(bookDir),
+          id: chapters[i].id,
+          order: chapters[i].order,
+          title: chapters[i].title,
+          part: chapters[i].part,
+          wordCount,
+          readingTimeMinutes: Math.max(
+            1,
+            Math.round(wordCount / READING_WORDS_PER_MINUTE)
+          ),
+          href: chapters[i].href,
+        },
+        `# ${chapters[i].title}\n\n${sources[i].markdown}`
+      );
+
+      // Save individual chapter unless it is unchanged or edited by hand
+      const relativePath = path.posix.join(
+        "content",
+        "chapters",
+        chapterFileName
+      );
+      results.set(
+        relativePath,
+        await this.writeTracked(
+          bookDir,
+          state,
+          relativePath,
+          convertedContent,
+          sources[i].sourceHash
+        )
+      );
+
+      // Derived files follow the chapter as it is on disk, local edits included
+      const chapterContent = stripFrontMatter(
+        await fs.readFile(path.join(bookDir, relativePath), "utf-8")
+      );
+
+      // Add to full text if enabled; it sits one level above the chapters
+      if (this.config.includeFullText) {
+        fullTextParts.push(
+          chapterContent
+            .replace(/\]\(\.\.\/assets\//g, "](assets/")
+            .replace(/\]\((\d+-[^)\s/]+\.md)\)/g, "](chapters/$1)")
+        );
+      }
+
+      await this.logProcessing(
+        bookDir,
+        `Processed chapter: ${chapterFileName} (${results.get(relativePath)})`
+      );
+    }
+
+    await this.reportConversionState(bookDir, state, results);
+
+    // Create full text file if enabled
+    if (this.config.includeFullText && fullTextParts.length > 0) {
+      const fullText = fullTextParts.join("\n\n---\n\n");
+      const fullTextHeader = `# ${metadata.title}\n*by ${metadata.author}*\n\n---\n\n`;
+
+      await fs.writeFile(
+        path.join(bookDir, "content", "full-text.md"),
+        fullTextHeader + fullText
+      );
+
+      await this.logProcessing(bookDir, "Created full-text.md");
+    }
+
+    // Generate plain text versions if requested
+    if (this.config.outputFormats.includes("text")) {
+      await this.generateTextVersions(bookDir, chapters);
+    }
+
+    // Cleanup temp files if enabled
+    if (this.config.cleanupTemp) {
+      await fs.remove(path.join(bookDir, "processing", "temp"));
+      await fs.ensureDir(path.join(bookDir, "processing", "temp"));
+    }
+
+    return chapters;
+  }
+
+  /**
+   * Write processing/conversion-report.json for an EPUB conversion and log a
+   * summary of what it found
+   */
+  private async writeConversionReport(
+    bookDir: string,
+    pkg: EpubPackage,
+    metadata: BookMetadata,
+    sources: ChapterSource[],
+    chapters: Chapter[]
+  ): Promise<void> {
+    const chaptersDir = path.join(bookDir, "content", "chapters");
+
+    const report = buildConversionReport(
+      sources.map((source, i) => ({
+        filename: chapters[i].filename,
+        title: chapters[i].title || source.title,
+        role: chapters[i].role,
+        markdown: source.markdown,
+        language: source.language,
+      })),
+      {
+        language: metadata.language,
+        minChapterWords: this.config.minChapterWords,
+        maxChapterWords: this.config.maxChapterWords,
+        encryption: pkg.readEncryption(),
+        // Links between chapters were rewritten to the chapter files, so
+        // whatever is left must exist next to them
+        linkExists: (filename, href) => {
+          const target = decodeHref(href.split("#")[0]);
+          return (
+            !target ||
+            fs.pathExistsSync(
+              path.resolve(chaptersDir, path.dirname(filename), target)
+            )
+          );
+        },
+        imageExists: (src) =>
+          src.startsWith("../assets/") &&
+          fs.pathExistsSync(
+            path.join(bookDir, "content", "assets", src.slice(10))
+          ),
+      }
+    );
+
+    await fs.writeJson(
+      path.join(bookDir, "processing", "conversion-report.json"),
+      report,
+      { spaces: 2 }
+    );
+
+    const { errors, warnings, ...byType } = report.summary;
+    const counts = Object.entries(byType)
+      .map(([type, count]) => `${type}=${count}`)
+      .join(", ");
+    await this.logProcessing(
+      bookDir,
+      `Conversion report: ${errors} errors, ${warnings} warnings${
+        counts ? ` (${counts})` : ""
+      }; see processing/conversion-report.json`,
+      errors > 0 ? "error" : warnings > 0 ? "warn" : "info"
+    );
+    for (const issue of report.issues) {
+      await this.logProcessing(
+        bookDir,
+        `${issue.chapter ? `${issue.chapter}: ` : ""}${issue.message}`,
+        issue.severity === "error" ? "error" : "warn"
+      );
+    }
+  }
+
+  private hashContent(content: string): string {
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+
+  private async loadConversionState(bookDir: string): Promise<ConversionState> {
+    const statePath = path.join(bookDir, "processing", "conversion-state.yml");
+    if (!(await fs.pathExists(statePath))) {
+      return { files: {} };
+    }
+    const state = YAML.parse(await fs.readFile(statePath, "utf-8"));
+    return { files: state?.files || {} };
+  }
+
+  /**
+   * Write a generated file without clobbering local edits. A file whose
+   * content no longer matches the hash recorded at the last conversion was
+   * edited by hand and is kept; chapters (which carry a source hash) are only
+   * rewritten when their source changed. Files with no recorded hash predate
+   * the state file and are rewritten.
+   */
+  private async writeTracked(
+    bookDir: string,
+    state: ConversionState,
+    relativePath: string,
+    content: string,
+    sourceHash?: string
+  ): Promise<TrackedWriteResult> {
+    const filePath = path.join(bookDir, relativePath);
+    const outputHash = this.hashContent(content);
+    const previous = state.files[relativePath];
+
+    if ((await fs.pathExists(filePath)) && !this.config.overwrite) {
+      const diskHash = this.hashContent(await fs.readFile(filePath, "utf-8"));
+
+      if (diskHash === outputHash) {
+        state.files[relativePath] = { sourceHash, outputHash };
+        return "unchanged";
+      }
+      if (previous && diskHash !== previous.outputHash) {
+        return sourceHash && previous.sourceHash !== sourceHash
+          ? "conflict"
+          : "edited";
+      }
+      if (previous && sourceHash && previous.sourceHash === sourceHash) {
+        return "unchanged";
+      }
+    }
+
+    await fs.writeFile(filePath, content);
+    state.files[relativePath] = { sourceHash, outputHash };
+    return "written";
+  }
+
+  private async reportConversionState(
+    bookDir: string,
+    state: ConversionState,
+    results: Map<string, TrackedWriteResult>
+  ): Promise<void> {
+    for (const [relativePath, result] of results) {
+      if (result === "edited") {
+        await this.logProcessing(
+          bookDir,
+          `Kept local edits in ${relativePath} (use --overwrite to replace)`,
+          "warn"
+        );
+      } else if (result === "conflict") {
+        await this.logProcessing(
+          bookDir,
+          `Source changed for ${relativePath}, but it has local edits; kept (use --overwrite to replace)`,
+          "warn"
+        );
+      }
+    }
+
+    // Chapter files from an earlier conversion that this one no longer produces
+    for (const relativePath of Object.keys(state.files)) {
+      if (!results.has(relativePath)) {
+        await this.logProcessing(
+          bookDir,
+          `${relativePath} is no longer produced by the conversion; left in place`,
+          "warn"
+        );
+        delete state.files[relativePath];
+      }
+    }
+
+    const count = (result: TrackedWriteResult) =>
+      Array.from(results.values()).filter((r) => r === result).length;
+    await this.logProcessing(
+      bookDir,
+      `Files: ${count("written")} written, ${count("unchanged")} unchanged, ${
+        count("edited") + count("conflict")
+      } kept with local edits`
+    );
+
+    await fs.writeFile(
+      path.join(bookDir, "processing", "conversion-state.yml"),
+      YAML.stringify(state, { indent: 2 })
+    );
+  }
+
   private async generateTextVersions(
     bookDir: string,
     chapters: Chapter[]
@@ -333,12 +1561,16 @@ class BookProcessor {
       );
 
       if (await fs.pathExists(markdownPath)) {
-        const markdown = await fs.readFile(markdownPath, "utf-8");
+        const markdown = stripFrontMatter(
+          await fs.readFile(markdownPath, "utf-8")
+        );
         // Simple markdown to text conversion (remove markdown syntax)
         const plainText = markdown
           .replace(/^#{1,6}\s+/gm, "") // Remove headers
           .replace(/\*\*(.*?)\*\*/g, "$1") // Remove bold
           .replace(/\*(.*?)\*/g, "$1") // Remove italic
+          .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // Images: keep alt text
+          .replace(/\[\^([^\]\s]+)\]/g, "[$1]") // Footnotes: plain [n] markers
           .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1") // Remove links, keep text
           .replace(/```[\s\S]*?```/g, "") // Remove code blocks
           .replace(/`([^`]+)`/g, "$1") // Remove inline code
@@ -359,30 +1591,36 @@ async function main() {
 
   if (args.length === 0) {
     console.log(`
-Usage: ts-node enhanced-convert.ts <epub-path> [book-name]
+Usage: ts-node enhanced-convert.ts <book-path> [book-name] [--overwrite]
+
+Supported formats: epub, pdf, docx
 
 Examples:
   ts-node enhanced-convert.ts ./books/mythos/source/mythos.epub
   ts-node enhanced-convert.ts ./source.epub "Custom Book Name"
+  ts-node enhanced-convert.ts ./scans/backlist-title.pdf "Backlist Title"
+  ts-node enhanced-convert.ts ./manuscripts/draft.docx
+  ts-node enhanced-convert.ts ./source.epub --overwrite
+
+Re-running keeps chapters you edited by hand; --overwrite replaces them.
         `);
     return;
   }
 
-  const epubPath = path.resolve(args[0]);
-  const customBookName = args[1];
+  const positional = args.filter((arg) => !arg.startsWith("--"));
+  const bookPath = path.resolve(positional[0]);
+  const customBookName = positional[1];
 
   const processor = new BookProcessor({
     outputFormats: ["markdown", "text"],
     chapterNaming: "both",
     includeFullText: true,
     cleanupTemp: true,
+    overwrite: args.includes("--overwrite"),
   });
 
   try {
-    const bookDir = await processor.convertEpubToMarkdown(
-      epubPath,
-      customBookName
-    );
+    const bookDir = await processor.convertBook(bookPath, customBookName);
     console.log(`\n✅ Book successfully processed!`);
     console.log(`📁 Output directory: ${bookDir}`);
     console.log(`📖 Ready for TTS processing!`);
@@ -397,4 +1635,10 @@ if (require.main === module) {
   main();
 }
 
-export { BookProcessor, BookMetadata, TableOfContents, ProcessingConfig };
+export {
+  BookProcessor,
+  TableOfContents,
+  TocPart,
+  TocSection,
+  ProcessingConfig,
+};
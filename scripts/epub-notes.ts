@@ -0,0 +1,104 @@
+import * as cheerio from "cheerio";
+import { AnyNode, Element } from "domhandler";
+
+type ResolveHref = (
+  fromPath: string,
+  href: string
+) => { path: string; fragment?: string };
+
+// Markers left on the parsed documents for BookProcessor to render as [^n]
+const NOTEREF_ATTR = "data-noteref";
+const NOTE_ATTR = "data-note";
+
+// Link text of an unmarked noteref: "1", "[12]", "(3)", "*", "†", "a"
+const NOTEREF_TEXT = /^[\[(]?(\d{1,3}|[*†‡§¶]{1,3}|[a-z])[\])]?$/i;
+
+function epubTypes(element: cheerio.Cheerio<Element>): string[] {
+  return (element.attr("epub:type") || element.attr("role") || "")
+    .split(/\s+/)
+    .map((type) => type.toLowerCase().replace(/^.*[:-]/, ""));
+}
+
+function isNoteref(link: cheerio.Cheerio<Element>): boolean {
+  if (epubTypes(link).includes("noteref")) return true;
+
+  // EPUB 2 books mark notes only by a superscript number linking elsewhere
+  const text = link.text().trim();
+  return (
+    NOTEREF_TEXT.test(text) &&
+    (link.parents("sup").length > 0 || link.find("sup").length > 0)
+  );
+}
+
+/**
+ * Resolve noteref/footnote pairs across every spine document. Noterefs get a
+ * `data-noteref` key, note bodies a `data-note` key, and the returned map
+ * holds each referenced note's HTML with its backlinks removed.
+ */
+function collectNotes(
+  documents: Map<string, cheerio.CheerioAPI>,
+  resolveHref: ResolveHref
+): Map<string, string> {
+  const notes = new Map<string, string>();
+  const backlinkTargets = new Set<string>();
+  const targets = new Map<string, string[]>();
+
+  for (const [docPath, $] of documents) {
+    $("a[href]").each((_, element) => {
+      const link = $(element);
+      const href = link.attr("href")!;
+      if (/^[a-z]+:/i.test(href) || !href.includes("#")) return;
+      if (!isNoteref(link)) return;
+
+      const target = resolveHref(docPath, href);
+      if (!target.fragment || !documents.has(target.path)) return;
+
+      const key = `${target.path}#${target.fragment}`;
+      link.attr(NOTEREF_ATTR, key);
+      targets.set(target.path, [
+        ...(targets.get(target.path) || []),
+        target.fragment,
+      ]);
+
+      // Notes usually link back to the reference (or its <sup>)
+      [link.attr("id"), link.parent("sup").attr("id")]
+        .filter(Boolean)
+        .forEach((id) => backlinkTargets.add(`${docPath}#${id}`));
+    });
+  }
+
+  for (const [docPath, fragments] of targets) {
+    const $ = documents.get(docPath)!;
+
+    for (const fragment of new Set(fragments)) {
+      const key = `${docPath}#${fragment}`;
+      let note: cheerio.Cheerio<AnyNode> = $("[id]")
+        .filter((_, element) => $(element).attr("id") === fragment)
+        .first();
+      if (note.length === 0) continue;
+
+      // An anchor inside the note paragraph stands for the whole paragraph
+      if (note.is("a, span, sup")) {
+        const block = note.closest("p, li, aside, dd, div");
+        if (block.length === 0) continue;
+        note = block;
+      }
+
+      note.attr(NOTE_ATTR, key);
+
+      const body = cheerio.load(`<div>${$.html(note)}</div>`, null, false);
+      body("a[href]").each((_, element) => {
+        const link = body(element);
+        const target = resolveHref(docPath, link.attr("href")!);
+        if (backlinkTargets.has(`${target.path}#${target.fragment}`)) {
+          link.remove();
+        }
+      });
+      notes.set(key, body.root().children().first().html() || "");
+    }
+  }
+
+  return notes;
+}
+
+export { collectNotes, NOTEREF_ATTR, NOTE_ATTR };
@@ -0,0 +1,534 @@
+import AdmZip from "adm-zip";
+import * as cheerio from "cheerio";
+import { AnyNode, Element } from "domhandler";
+import * as path from "path";
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string[];
+}
+
+interface NavEntry {
+  title: string;
+  href: string;
+  fragment?: string;
+  children: NavEntry[];
+}
+
+interface Landmark {
+  type: string;
+  href: string;
+  fragment?: string;
+}
+
+interface Creator {
+  name: string;
+  role: string;
+  fileAs?: string;
+}
+
+interface Identifier {
+  type: string;
+  value: string;
+}
+
+interface Series {
+  name: string;
+  index?: number;
+}
+
+interface EncryptedResource {
+  path: string;
+  algorithm: string;
+  // IDPF/Adobe font obfuscation only protects embedded fonts; it is not DRM
+  fontObfuscation: boolean;
+}
+
+interface PackageMetadata {
+  title?: string;
+  subtitle?: string;
+  creators: Creator[];
+  contributors: Creator[];
+  language?: string;
+  date?: string;
+  description?: string;
+  publisher?: string;
+  subjects: string[];
+  identifiers: Identifier[];
+  series?: Series;
+  rights?: string;
+}
+
+const FONT_OBFUSCATION_ALGORITHMS = [
+  "http://www.idpf.org/2008/embedding",
+  "http://ns.adobe.com/pdf/enc#RC",
+];
+
+// MARC relator codes used by opf:role and EPUB 3 role refinements
+const RELATOR_ROLES: Record<string, string> = {
+  aut: "author",
+  edt: "editor",
+  trl: "translator",
+  nrt: "narrator",
+  ill: "illustrator",
+  aui: "introduction",
+  aft: "afterword",
+  cov: "cover-designer",
+  art: "artist",
+  pht: "photographer",
+  ctb: "contributor",
+};
+
+/**
+ * Percent-decode an href. Malformed escapes (a literal "%" in a file name)
+ * leave it undecoded rather than failing the conversion.
+ */
+function decodeHref(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Direct access to the files inside an EPUB container, for the parts of the
+ * package (nav documents, raw OPF) that the `epub` library does not expose
+ */
+class EpubPackage {
+  readonly opfPath: string;
+  readonly manifest = new Map<string, ManifestItem>();
+  readonly spine: string[] = [];
+  private zip: AdmZip;
+  private opf: cheerio.CheerioAPI;
+
+  constructor(epubPath: string) {
+    this.zip = new AdmZip(epubPath);
+
+    const container = this.loadXml("META-INF/container.xml");
+    const rootFile = container("rootfile").first().attr("full-path");
+    if (!rootFile) {
+      throw new Error("EPUB container does not declare a package document");
+    }
+
+    this.opfPath = rootFile;
+    this.opf = this.loadXml(rootFile);
+
+    this.opf("manifest > item").each((_, element) => {
+      const item = this.opf(element);
+      const id = item.attr("id");
+      const href = item.attr("href");
+      if (!id || !href) return;
+
+      this.manifest.set(id, {
+        id,
+        href: this.resolveHref(this.opfPath, href).path,
+        mediaType: item.attr("media-type") || "",
+        properties: (item.attr("properties") || "")
+          .split(/\s+/)
+          .filter(Boolean),
+      });
+    });
+
+    this.opf("spine > itemref").each((_, element) => {
+      const idref = this.opf(element).attr("idref");
+      if (idref) this.spine.push(idref);
+    });
+  }
+
+  hasFile(zipPath: string): boolean {
+    return this.zip.getEntry(zipPath) !== null;
+  }
+
+  readText(zipPath: string): string {
+    return this.readBuffer(zipPath).toString("utf-8");
+  }
+
+  readBuffer(zipPath: string): Buffer {
+    const entry = this.zip.getEntry(zipPath);
+    if (!entry) {
+      throw new Error(`File not found in EPUB: ${zipPath}`);
+    }
+    return entry.getData();
+  }
+
+  loadXml(zipPath: string): cheerio.CheerioAPI {
+    return cheerio.load(this.readText(zipPath), { xmlMode: true });
+  }
+
+  /**
+   * Resolve an href found in `fromPath` to a normalized path inside the zip
+   */
+  resolveHref(
+    fromPath: string,
+    href: string
+  ): { path: string; fragment?: string } {
+    const [target, fragment] = href.split("#");
+    const base = path.posix.dirname(fromPath);
+    const resolved = target
+      ? path.posix.normalize(path.posix.join(base, decodeHref(target)))
+      : fromPath;
+
+    return {
+      path: resolved.replace(/^\.\//, ""),
+      fragment: fragment || undefined,
+    };
+  }
+
+  /**
+   * Read the book's navigation tree, preferring the EPUB 3 nav document and
+   * falling back to the EPUB 2 NCX
+   */
+  readNavigation(): NavEntry[] {
+    const navItem = this.findNavItem();
+    if (navItem) {
+      const entries = this.readNavDocument(navItem.href);
+      if (entries.length > 0) return entries;
+    }
+
+    const ncxId = this.opf("spine").attr("toc");
+    const ncxItem =
+      (ncxId && this.manifest.get(ncxId)) ||
+      Array.from(this.manifest.values()).find(
+        (item) => item.mediaType === "application/x-dtbncx+xml"
+      );
+    if (ncxItem && this.hasFile(ncxItem.href)) {
+      return this.readNcx(ncxItem.href);
+    }
+
+    return [];
+  }
+
+  /**
+   * Read structural landmarks from the EPUB 3 landmarks nav and the EPUB 2
+   * OPF guide; both map a semantic type such as "copyright-page" to a file
+   */
+  readLandmarks(): Landmark[] {
+    const landmarks: Landmark[] = [];
+
+    const navItem = this.findNavItem();
+    if (navItem) {
+      const $ = this.loadXml(navItem.href);
+      $("nav")
+        .filter((_, element) =>
+          ($(element).attr("epub:type") || "").includes("landmarks")
+        )
+        .find("a")
+        .each((_, element) => {
+          const type = $(element).attr("epub:type");
+          const href = $(element).attr("href");
+          if (type && href) {
+            const target = this.resolveHref(navItem.href, href);
+            landmarks.push({
+              type,
+              href: target.path,
+              fragment: target.fragment,
+            });
+          }
+        });
+    }
+
+    this.opf("guide > reference").each((_, element) => {
+      const type = this.opf(element).attr("type");
+      const href = this.opf(element).attr("href");
+      if (type && href) {
+        const target = this.resolveHref(this.opfPath, href);
+        landmarks.push({ type, href: target.path, fragment: target.fragment });
+      }
+    });
+
+    return landmarks;
+  }
+
+  /**
+   * Find the cover image from the EPUB 3 cover-image property, the EPUB 2
+   * `<meta name="cover">` pointer, or a manifest image named like a cover
+   */
+  findCoverImage(): ManifestItem | undefined {
+    const items = Array.from(this.manifest.values()).filter(
+      (item) => item.mediaType.startsWith("image/") && this.hasFile(item.href)
+    );
+
+    const coverId = this.opf('metadata meta[name="cover"]').attr("content");
+    return (
+      items.find((item) => item.properties.includes("cover-image")) ||
+      items.find((item) => item.id === coverId) ||
+      items.find((item) => /cover/i.test(item.id + " " + item.href))
+    );
+  }
+
+  /**
+   * List the resources META-INF/encryption.xml declares as encrypted. Paths in
+   * encryption.xml are relative to the container root.
+   */
+  readEncryption(): EncryptedResource[] {
+    if (!this.hasFile("META-INF/encryption.xml")) return [];
+
+    // Elements usually carry an "enc:" prefix, so match on the local name
+    const $ = this.loadXml("META-INF/encryption.xml");
+    const byName = (root: AnyNode, name: string) =>
+      $(root)
+        .find("*")
+        .toArray()
+        .filter((element) => element.tagName.split(":").pop() === name);
+
+    return byName($.root()[0], "EncryptedData").flatMap((data) => {
+      const uri = $(byName(data, "CipherReference")[0]).attr("URI");
+      if (!uri) return [];
+
+      const algorithm =
+        $(byName(data, "EncryptionMethod")[0]).attr("Algorithm") || "";
+      return [
+        {
+          path: decodeHref(uri),
+          algorithm,
+          fontObfuscation: FONT_OBFUSCATION_ALGORITHMS.includes(algorithm),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Read Dublin Core metadata with EPUB 3 refinements (roles, file-as, title
+   * and identifier types) and EPUB 2 `opf:` attributes; series comes from an
+   * EPUB 3 collection or calibre's meta tags
+   */
+  readMetadata(): PackageMetadata {
+    const $ = this.opf;
+    const text = (element: Element) =>
+      $(element).text().replace(/\s+/g, " ").trim();
+
+    const refinements = (element: Element, property: string) =>
+      this.refinement($(element).attr("id"), property);
+
+    const readCreators = (name: string, defaultRole: string): Creator[] =>
+      this.dcElements(name)
+        .map((element) => {
+          const code =
+            refinements(element, "role") || $(element).attr("opf:role") || "";
+          return {
+            name: text(element),
+            role: RELATOR_ROLES[code.toLowerCase()] || code || defaultRole,
+            fileAs:
+              refinements(element, "file-as") ||
+              $(element).attr("opf:file-as") ||
+              undefined,
+          };
+        })
+        .filter((creator) => creator.name.length > 0);
+
+    const titles = this.dcElements("title").map((element) => ({
+      value: text(element),
+      type: refinements(element, "title-type"),
+    }));
+    const first = (name: string) => {
+      const element = this.dcElements(name)[0];
+      return element && text(element) ? text(element) : undefined;
+    };
+
+    return {
+      title: (titles.find((t) => t.type === "main") || titles[0])?.value,
+      subtitle: titles.find((t) => t.type === "subtitle")?.value,
+      creators: readCreators("creator", "author"),
+      contributors: readCreators("contributor", "contributor"),
+      language: first("language"),
+      date: first("date"),
+      description: first("description"),
+      publisher: first("publisher"),
+      subjects: this.dcElements("subject")
+        .map(text)
+        .filter((subject) => subject.length > 0),
+      identifiers: this.dcElements("identifier")
+        .map((element) =>
+          this.classifyIdentifier(
+            text(element),
+            refinements(element, "identifier-type") ||
+              $(element).attr("opf:scheme")
+          )
+        )
+        .filter((identifier) => identifier.value.length > 0),
+      series: this.readSeries(),
+      rights: first("rights"),
+    };
+  }
+
+  private dcElements(name: string): Element[] {
+    return this.opf("metadata")
+      .find("*")
+      .toArray()
+      .filter((element) => element.tagName === `dc:${name}`);
+  }
+
+  private classifyIdentifier(value: string, scheme?: string): Identifier {
+    const bare = value.replace(/^urn:[a-z]+:/i, "").trim();
+    const declared = (scheme || value.match(/^urn:([a-z]+):/i)?.[1] || "")
+      .toLowerCase()
+      .replace(/^(mobi-)?asin$/, "asin");
+
+    if (
+      declared === "isbn" ||
+      /^(97[89])?\d{9}[\dx]$/i.test(bare.replace(/-/g, ""))
+    ) {
+      return { type: "isbn", value: bare.replace(/[-\s]/g, "") };
+    }
+    if (declared === "asin" || /^B0[0-9A-Z]{8}$/.test(bare)) {
+      return { type: "asin", value: bare };
+    }
+    if (
+      declared === "uuid" ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+        bare
+      )
+    ) {
+      return { type: "uuid", value: bare.toLowerCase() };
+    }
+    return { type: declared || "other", value: declared ? bare : value.trim() };
+  }
+
+  private readSeries(): Series | undefined {
+    const $ = this.opf;
+    const metas = $("metadata meta").toArray();
+
+    const collection = metas.find((meta) => {
+      if ($(meta).attr("property") !== "belongs-to-collection") return false;
+      const type = this.refinement($(meta).attr("id"), "collection-type");
+      return !type || type === "series";
+    });
+    if (collection) {
+      const position = this.refinement(
+        $(collection).attr("id"),
+        "group-position"
+      );
+      return {
+        name: $(collection).text().trim(),
+        index: position ? parseFloat(position) : undefined,
+      };
+    }
+
+    const calibre = (name: string) =>
+      metas.find((meta) => $(meta).attr("name") === name)?.attribs.content;
+    const calibreSeries = calibre("calibre:series");
+    if (calibreSeries) {
+      const index = calibre("calibre:series_index");
+      return {
+        name: calibreSeries.trim(),
+        index: index ? parseFloat(index) : undefined,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Text of the EPUB 3 `<meta refines="#id" property="...">` for an element
+   */
+  private refinement(
+    id: string | undefined,
+    property: string
+  ): string | undefined {
+    if (!id) return undefined;
+    const meta = this.opf("metadata meta")
+      .filter(
+        (_, element) =>
+          this.opf(element).attr("refines") === `#${id}` &&
+          this.opf(element).attr("property") === property
+      )
+      .first();
+    return meta.length > 0 ? meta.text().trim() : undefined;
+  }
+
+  private findNavItem(): ManifestItem | undefined {
+    const navItem = Array.from(this.manifest.values()).find((item) =>
+      item.properties.includes("nav")
+    );
+    return navItem && this.hasFile(navItem.href) ? navItem : undefined;
+  }
+
+  private readNavDocument(navPath: string): NavEntry[] {
+    const $ = this.loadXml(navPath);
+    let tocNav = $("nav").filter((_, element) =>
+      ($(element).attr("epub:type") || "").includes("toc")
+    );
+    if (tocNav.length === 0) {
+      tocNav = $("nav").first();
+    }
+
+    const walk = (list: cheerio.Cheerio<Element>): NavEntry[] => {
+      const entries: NavEntry[] = [];
+      list.children("li").each((_, li) => {
+        const $li = $(li);
+        const link = $li.children("a").first();
+        const label = link.length > 0 ? link : $li.children("span").first();
+        const children = walk($li.children("ol").first());
+        const href = link.attr("href");
+
+        if (!href) {
+          // Unlinked headings only group their children
+          entries.push(...children);
+          return;
+        }
+
+        const target = this.resolveHref(navPath, href);
+        entries.push({
+          title: label.text().replace(/\s+/g, " ").trim(),
+          href: target.path,
+          fragment: target.fragment,
+          children,
+        });
+      });
+      return entries;
+    };
+
+    return walk(tocNav.children("ol").first());
+  }
+
+  private readNcx(ncxPath: string): NavEntry[] {
+    const $ = this.loadXml(ncxPath);
+
+    const walk = (points: cheerio.Cheerio<Element>): NavEntry[] => {
+      const entries: NavEntry[] = [];
+      points.each((_, point) => {
+        const $point = $(point);
+        const src = $point.children("content").attr("src");
+        const children = walk($point.children("navPoint"));
+
+        if (!src) {
+          entries.push(...children);
+          return;
+        }
+
+        const target = this.resolveHref(ncxPath, src);
+        entries.push({
+          title: $point
+            .children("navLabel")
+            .first()
+            .text()
+            .replace(/\s+/g, " ")
+            .trim(),
+          href: target.path,
+          fragment: target.fragment,
+          children,
+        });
+      });
+      return entries;
+    };
+
+    return walk($("navMap").first().children("navPoint"));
+  }
+}
+
+export {
+  EpubPackage,
+  decodeHref,
+  EncryptedResource,
+  RELATOR_ROLES,
+  ManifestItem,
+  NavEntry,
+  Landmark,
+  PackageMetadata,
+  Creator,
+  Identifier,
+  Series,
+};
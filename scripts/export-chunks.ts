@@ -0,0 +1,296 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { parseFrontMatter } from "./front-matter";
+import { SectionRole } from "../config/types";
+
+interface Chapter {
+  id: string;
+  title: string;
+  order: number;
+  filename: string;
+  part?: string;
+  role?: SectionRole;
+}
+
+interface ChunkOptions {
+  // Target chunk length in characters
+  size: number;
+  // Characters of trailing paragraphs repeated at the start of the next chunk
+  overlap: number;
+}
+
+interface ChunkRecord {
+  id: string;
+  book: {
+    slug: string;
+    title: string;
+    author: string;
+    language?: string;
+    publicationDate?: string;
+    isbn?: string;
+    series?: { name: string; index?: number };
+  };
+  chapter: {
+    id: string;
+    order: number;
+    title: string;
+    part?: string;
+    role?: SectionRole;
+    file: string;
+  };
+  chunkIndex: number;
+  headingPath: string[];
+  // Character offsets into the chapter file, front matter included
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A paragraph (or a sentence run of an oversized one) with its heading path
+interface Block {
+  start: number;
+  end: number;
+  headingPath: string[];
+  isHeading: boolean;
+}
+
+class ChunkExporter {
+  private bookDir: string;
+  private options: ChunkOptions;
+
+  constructor(bookDir: string, options: Partial<ChunkOptions> = {}) {
+    this.bookDir = path.resolve(bookDir);
+    this.options = { size: 2000, overlap: 200, ...options };
+
+    if (this.options.overlap >= this.options.size) {
+      throw new Error("Chunk overlap must be smaller than the chunk size");
+    }
+  }
+
+  async export(): Promise<{ outputPath: string; chunkCount: number }> {
+    const metadataPath = path.join(this.bookDir, "metadata.yml");
+    const tocPath = path.join(this.bookDir, "toc.yml");
+    if (
+      !(await fs.pathExists(metadataPath)) ||
+      !(await fs.pathExists(tocPath))
+    ) {
+      throw new Error(
+        `Book metadata or TOC not found in ${this.bookDir}\nRun conversion first with: npm run convert`
+      );
+    }
+
+    const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+    const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+    const book: ChunkRecord["book"] = {
+      slug: path.basename(this.bookDir),
+      title: metadata.title,
+      author: metadata.author,
+      language: metadata.language,
+      publicationDate: metadata.publicationDate,
+      isbn: metadata.isbn,
+      series: metadata.series,
+    };
+
+    const lines: string[] = [];
+    for (const chapter of toc.chapters as Chapter[]) {
+      const file = path.posix.join("content", "chapters", chapter.filename);
+      const chapterPath = path.join(this.bookDir, file);
+      if (!(await fs.pathExists(chapterPath))) {
+        console.log(chalk.yellow(`⚠️  Chapter file not found: ${file}`));
+        continue;
+      }
+
+      const content = await fs.readFile(chapterPath, "utf-8");
+      this.chunkChapter(content).forEach((chunk, chunkIndex) => {
+        const record: ChunkRecord = {
+          id: `${book.slug}:${chapter.id}:${chunkIndex}`,
+          book,
+          chapter: {
+            id: chapter.id,
+            order: chapter.order,
+            title: chapter.title,
+            part: chapter.part,
+            role: chapter.role,
+            file,
+          },
+          chunkIndex,
+          ...chunk,
+          text: content.slice(chunk.start, chunk.end),
+        };
+        lines.push(JSON.stringify(record));
+      });
+    }
+
+    const outputPath = path.join(this.bookDir, "content", "chunks.jsonl");
+    await fs.writeFile(
+      outputPath,
+      lines.join("\n") + (lines.length > 0 ? "\n" : "")
+    );
+
+    return { outputPath, chunkCount: lines.length };
+  }
+
+  /**
+   * Group a chapter's paragraphs into chunks of at most `size` characters,
+   * starting each chunk with the trailing paragraphs of the previous one
+   * while they fit in `overlap`
+   */
+  private chunkChapter(
+    content: string
+  ): Array<{ start: number; end: number; headingPath: string[] }> {
+    const blocks = this.splitBlocks(content);
+    const chunks: Array<{ start: number; end: number; headingPath: string[] }> =
+      [];
+
+    let first = 0;
+    while (first < blocks.length) {
+      let last = first;
+      while (
+        last + 1 < blocks.length &&
+        blocks[last + 1].end - blocks[first].start <= this.options.size
+      ) {
+        last++;
+      }
+
+      // Headings belong with the text after them, even past the size limit
+      let textEnd = last;
+      while (textEnd >= first && blocks[textEnd].isHeading) textEnd--;
+      if (textEnd < first) {
+        while (last + 1 < blocks.length && blocks[last].isHeading) last++;
+      } else if (last + 1 < blocks.length) {
+        last = textEnd;
+      }
+
+      const body = blocks
+        .slice(first, last + 1)
+        .find((block) => !block.isHeading);
+      chunks.push({
+        start: blocks[first].start,
+        end: blocks[last].end,
+        headingPath: (body || blocks[first]).headingPath,
+      });
+
+      if (last + 1 >= blocks.length) break;
+
+      let next = last + 1;
+      while (
+        next - 1 > first &&
+        blocks[last].end - blocks[next - 1].start <= this.options.overlap
+      ) {
+        next--;
+      }
+      first = next;
+    }
+
+    return chunks;
+  }
+
+  private splitBlocks(content: string): Block[] {
+    const { body } = parseFrontMatter(content);
+    const bodyOffset = content.length - body.length;
+    const blocks: Block[] = [];
+    const headings: string[] = [];
+
+    const paragraph = /[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g;
+    for (const match of body.matchAll(paragraph)) {
+      const text = match[0];
+      if (!text.trim()) continue;
+
+      const start = bodyOffset + match.index!;
+      const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(text.trim());
+      if (heading) {
+        const level = heading[1].length;
+        headings.splice(level - 1);
+        headings[level - 1] = heading[2];
+      }
+
+      // The title heading is usually repeated by the source's own heading
+      const headingPath = headings.filter(
+        (title, index) => title && title !== headings[index - 1]
+      );
+      for (const [pieceStart, pieceEnd] of this.splitLongText(text)) {
+        blocks.push({
+          start: start + pieceStart,
+          end: start + pieceEnd,
+          headingPath,
+          isHeading: !!heading,
+        });
+      }
+    }
+
+    return blocks;
+  }
+
+  // Ranges of an oversized paragraph cut at sentence ends (or hard cut)
+  private splitLongText(text: string): Array<[number, number]> {
+    const size = this.options.size;
+    if (text.length <= size) return [[0, text.length]];
+
+    const ranges: Array<[number, number]> = [];
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(start + size, text.length);
+      if (end < text.length) {
+        const window = text.slice(start, end);
+        const sentenceEnd = Math.max(
+          ...Array.from(window.matchAll(/[.!?]["')\]]?\s+/g)).map(
+            (match) => match.index! + match[0].length
+          ),
+          0
+        );
+        if (sentenceEnd > size * 0.5) end = start + sentenceEnd;
+      }
+      const piece = text.slice(start, end);
+      const trimmedEnd = start + piece.trimEnd().length;
+      ranges.push([start, trimmedEnd]);
+      start = end;
+    }
+    return ranges;
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("export-chunks")
+  .description(
+    "Export a converted book as paragraph-aware chunks in content/chunks.jsonl"
+  )
+  .version("1.0.0")
+  .argument("<book-directory>", "Path to the book directory")
+  .option("-s, --size <chars>", "Maximum chunk size in characters", "2000")
+  .option(
+    "-o, --overlap <chars>",
+    "Characters of context repeated from the previous chunk",
+    "200"
+  )
+  .action(async (bookDir: string, options: any) => {
+    try {
+      const exporter = new ChunkExporter(bookDir, {
+        size: parseInt(options.size),
+        overlap: parseInt(options.overlap),
+      });
+      const { outputPath, chunkCount } = await exporter.export();
+      console.log(
+        chalk.green(
+          `✅ Wrote ${chunkCount} chunks to ${path.relative(
+            process.cwd(),
+            outputPath
+          )}`
+        )
+      );
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { ChunkExporter, ChunkOptions, ChunkRecord };
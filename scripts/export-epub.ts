@@ -0,0 +1,574 @@
+import AdmZip from "adm-zip";
+import * as cheerio from "cheerio";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { SectionRole, TTSProvider } from "../config/types";
+import { Creator, decodeHref, RELATOR_ROLES } from "./epub-package";
+import { BookMetadata } from "./book-metadata";
+import { bookIdentifiers, escapeXml, primaryIdentifier } from "./xml-utils";
+import { parseFrontMatter } from "./front-matter";
+import { renderMarkdown, toXhtml } from "./markdown-html";
+import { audioMimeType, listChapterAudio } from "./audio-files";
+
+interface Chapter {
+  id: string;
+  title: string;
+  order: number;
+  filename: string;
+  href?: string;
+  part?: string;
+  role?: SectionRole;
+}
+
+interface ExportOptions {
+  // Embed chapter audio generated by this provider
+  audioProvider?: TTSProvider;
+  // Defaults to export/<book-slug>.epub inside the book directory
+  outputPath?: string;
+}
+
+// A file added to the package, relative to OEBPS/
+interface PackageItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+// EPUB 3 reading systems must play these; anything else gets a warning
+const CORE_AUDIO_TYPES = ["audio/mpeg", "audio/mp4", "audio/ogg"];
+
+// Structural semantics for each section role
+const ROLE_EPUB_TYPES: Partial<Record<SectionRole, string>> = {
+  cover: "cover",
+  "title-page": "titlepage",
+  copyright: "copyright-page",
+  dedication: "dedication",
+  epigraph: "epigraph",
+  toc: "toc",
+  foreword: "foreword",
+  preface: "preface",
+  introduction: "introduction",
+  prologue: "prologue",
+  part: "part",
+  chapter: "chapter",
+  epilogue: "epilogue",
+  afterword: "afterword",
+  acknowledgements: "acknowledgments",
+  notes: "endnotes",
+  bibliography: "bibliography",
+  glossary: "glossary",
+  appendix: "appendix",
+  index: "index",
+};
+
+class EpubExporter {
+  private bookDir: string;
+  private options: ExportOptions;
+
+  constructor(bookDir: string, options: ExportOptions = {}) {
+    this.bookDir = path.resolve(bookDir);
+    this.options = options;
+  }
+
+  async export(): Promise<string> {
+    const metadataPath = path.join(this.bookDir, "metadata.yml");
+    const tocPath = path.join(this.bookDir, "toc.yml");
+    if (
+      !(await fs.pathExists(metadataPath)) ||
+      !(await fs.pathExists(tocPath))
+    ) {
+      throw new Error(
+        `Book metadata or TOC not found in ${this.bookDir}\nRun conversion first with: npm run convert`
+      );
+    }
+
+    const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+    const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+    const chapters: Chapter[] = toc.chapters;
+    const language = metadata.language || "en";
+
+    const zip = new AdmZip(undefined, { noSort: true });
+    // The mimetype entry must come first and be stored uncompressed
+    zip.addFile("mimetype", Buffer.from("application/epub+zip"));
+    zip.getEntry("mimetype")!.header.method = 0;
+    zip.addFile(
+      "META-INF/container.xml",
+      Buffer.from(
+        `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`
+      )
+    );
+
+    const items: PackageItem[] = [
+      {
+        id: "nav",
+        href: "nav.xhtml",
+        mediaType: "application/xhtml+xml",
+        properties: "nav",
+      },
+    ];
+
+    const coverAsset = metadata.cover ? path.basename(metadata.cover) : null;
+    const assetsDir = path.join(this.bookDir, "content", "assets");
+    if (await fs.pathExists(assetsDir)) {
+      for (const file of (await fs.readdir(assetsDir)).sort()) {
+        const mediaType =
+          IMAGE_MIME_TYPES[path.extname(file).slice(1).toLowerCase()];
+        if (!mediaType) continue;
+
+        zip.addFile(
+          `OEBPS/assets/${file}`,
+          await fs.readFile(path.join(assetsDir, file))
+        );
+        items.push({
+          id: `asset-${items.length}`,
+          href: `assets/${file}`,
+          mediaType,
+          properties: file === coverAsset ? "cover-image" : undefined,
+        });
+      }
+    }
+
+    const audio = this.options.audioProvider
+      ? await listChapterAudio(this.bookDir, this.options.audioProvider)
+      : new Map<number, string>();
+
+    // Exported file name for each chapter, also used to rewrite links
+    const chapterFiles = chapters.map((chapter) =>
+      chapter.filename.replace(/\.md$/, ".xhtml")
+    );
+    const spine: string[] = [];
+    const exported = new Set<number>();
+
+    for (let i = 0; i < chapters.length; i++) {
+      const chapter = chapters[i];
+      const chapterPath = path.join(
+        this.bookDir,
+        "content",
+        "chapters",
+        chapter.filename
+      );
+      if (!(await fs.pathExists(chapterPath))) {
+        console.log(
+          chalk.yellow(`⚠️  Chapter file not found: ${chapter.filename}`)
+        );
+        continue;
+      }
+
+      const { data, body } = parseFrontMatter(
+        await fs.readFile(chapterPath, "utf-8")
+      );
+      const title =
+        typeof data.title === "string" && data.title
+          ? data.title
+          : chapter.title;
+
+      let audioElement = "";
+      const audioPath = audio.get(chapter.order);
+      if (audioPath) {
+        const audioFile = path.basename(audioPath);
+        const mediaType = audioMimeType(audioFile);
+        if (!CORE_AUDIO_TYPES.includes(mediaType)) {
+          console.log(
+            chalk.yellow(
+              `⚠️  ${audioFile} is ${mediaType}, which many reading systems cannot play`
+            )
+          );
+        }
+        zip.addFile(`OEBPS/audio/${audioFile}`, await fs.readFile(audioPath));
+        items.push({
+          id: `audio-${chapter.order}`,
+          href: `audio/${audioFile}`,
+          mediaType,
+        });
+        audioElement = `<audio controls="controls" src="../audio/${escapeXml(
+          audioFile
+        )}"/>\n`;
+      }
+
+      const content = this.rewriteLinks(
+        toXhtml(renderMarkdown(body)),
+        chapter,
+        chapters,
+        chapterFiles
+      );
+      const epubType = chapter.role && ROLE_EPUB_TYPES[chapter.role];
+      const xhtml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(
+        language
+      )}" lang="${escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+</head>
+<body>
+<section${epubType ? ` epub:type="${epubType}"` : ""}>
+${audioElement}${content}
+</section>
+</body>
+</html>
+`;
+
+      const id = `chapter-${chapter.order}`;
+      zip.addFile(`OEBPS/chapters/${chapterFiles[i]}`, Buffer.from(xhtml));
+      items.push({
+        id,
+        href: `chapters/${chapterFiles[i]}`,
+        mediaType: "application/xhtml+xml",
+      });
+      spine.push(id);
+      exported.add(i);
+    }
+
+    zip.addFile(
+      "OEBPS/nav.xhtml",
+      Buffer.from(
+        this.buildNav(metadata, chapters, chapterFiles, exported, language)
+      )
+    );
+    zip.addFile(
+      "OEBPS/content.opf",
+      Buffer.from(this.buildPackageDocument(metadata, items, spine, language))
+    );
+
+    const outputPath =
+      this.options.outputPath ||
+      path.join(this.bookDir, "export", `${path.basename(this.bookDir)}.epub`);
+    await fs.ensureDir(path.dirname(outputPath));
+    zip.writeZip(outputPath);
+    return outputPath;
+  }
+
+  /**
+   * Point links at other chapter files (or, in books converted before links
+   * were rewritten, at the source EPUB's documents) to the exported chapter;
+   * links that no longer lead anywhere are unwrapped
+   */
+  private rewriteLinks(
+    xhtml: string,
+    chapter: Chapter,
+    chapters: Chapter[],
+    chapterFiles: string[]
+  ): string {
+    if (!/<a\s[^>]*href="(?!#|[a-z]+:)/i.test(xhtml)) {
+      return xhtml;
+    }
+
+    const $ = cheerio.load(xhtml, { xml: true }, false);
+    const fromDir = path.posix.dirname((chapter.href || "").split("#")[0]);
+    $("a[href]").each((_, element) => {
+      const link = $(element);
+      const href = link.attr("href")!;
+      if (href.startsWith("#") || /^[a-z]+:/i.test(href)) return;
+
+      const [target, fragment] = href.split("#");
+      const decoded = decodeHref(target);
+      let match = chapters.findIndex((c) => c.filename === decoded);
+      if (match < 0 && chapter.href) {
+        const targetPath = path.posix.normalize(
+          path.posix.join(fromDir, decoded)
+        );
+        const fromDocument = chapters
+          .map((c, i) => ({ href: c.href || "", i }))
+          .filter(({ href }) => href.split("#")[0] === targetPath);
+        const found =
+          fromDocument.find(({ href }) => href.split("#")[1] === fragment) ||
+          fromDocument[0];
+        if (found) match = found.i;
+      }
+
+      if (match >= 0) {
+        link.attr("href", chapterFiles[match]);
+      } else {
+        link.replaceWith(link.contents());
+      }
+    });
+    return $.xml();
+  }
+
+  private buildNav(
+    metadata: BookMetadata,
+    chapters: Chapter[],
+    chapterFiles: string[],
+    exported: Set<number>,
+    language: string
+  ): string {
+    // Indexes into toc.yml (and chapterFiles) of the chapters written out
+    const indexes = Array.from(exported).sort((a, b) => a - b);
+    const link = (i: number) =>
+      `<a href="chapters/${escapeXml(chapterFiles[i])}">${escapeXml(
+        chapters[i].title
+      )}</a>`;
+
+    // Chapters nest under their part; a part's own title page is its link
+    const entries: string[] = [];
+    const seenParts = new Set<string>();
+    for (const i of indexes) {
+      const part = chapters[i].part;
+      if (!part) {
+        entries.push(`<li>${link(i)}</li>`);
+        continue;
+      }
+      if (seenParts.has(part)) continue;
+      seenParts.add(part);
+
+      const members = indexes.filter((index) => chapters[index].part === part);
+      const partPage = members.find(
+        (index) =>
+          chapters[index].role === "part" && chapters[index].title === part
+      );
+      const heading =
+        partPage !== undefined
+          ? link(partPage)
+          : `<span>${escapeXml(part)}</span>`;
+      const children = members
+        .filter((index) => index !== partPage)
+        .map((index) => `<li>${link(index)}</li>`);
+      entries.push(
+        `<li>${heading}${
+          children.length > 0 ? `\n<ol>\n${children.join("\n")}\n</ol>\n` : ""
+        }</li>`
+      );
+    }
+
+    const landmarks: string[] = [];
+    const cover = indexes.find((i) => chapters[i].role === "cover");
+    if (cover !== undefined) {
+      landmarks.push(
+        `<li><a epub:type="cover" href="chapters/${escapeXml(
+          chapterFiles[cover]
+        )}">Cover</a></li>`
+      );
+    }
+    const bodyStart = indexes.find((i) =>
+      ["chapter", "prologue", "part"].includes(chapters[i].role || "chapter")
+    );
+    if (bodyStart !== undefined) {
+      landmarks.push(
+        `<li><a epub:type="bodymatter" href="chapters/${escapeXml(
+          chapterFiles[bodyStart]
+        )}">Start of Content</a></li>`
+      );
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(
+      language
+    )}" lang="${escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(metadata.title)}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${entries.join("\n")}
+</ol>
+</nav>
+${
+  landmarks.length > 0
+    ? `<nav epub:type="landmarks" hidden="hidden">
+<ol>
+${landmarks.join("\n")}
+</ol>
+</nav>
+`
+    : ""
+}</body>
+</html>
+`;
+  }
+
+  private buildPackageDocument(
+    metadata: BookMetadata,
+    items: PackageItem[],
+    spine: string[],
+    language: string
+  ): string {
+    const lines: string[] = [];
+    const identifiers = bookIdentifiers(metadata);
+    const uuid = identifiers.find((id) => id.type === "uuid")?.value;
+    const isbn = identifiers.find((id) => id.type === "isbn")?.value;
+    const primary = primaryIdentifier(metadata);
+    lines.push(
+      `<dc:identifier id="book-id">${escapeXml(primary)}</dc:identifier>`
+    );
+    identifiers
+      .filter((id) => id.value !== uuid && id.value !== isbn)
+      .forEach((id) =>
+        lines.push(`<dc:identifier>${escapeXml(id.value)}</dc:identifier>`)
+      );
+    if (uuid && isbn) {
+      lines.push(`<dc:identifier>urn:isbn:${escapeXml(isbn)}</dc:identifier>`);
+    }
+
+    lines.push(`<dc:title id="title">${escapeXml(metadata.title)}</dc:title>`);
+    lines.push(`<meta refines="#title" property="title-type">main</meta>`);
+    if (metadata.subtitle) {
+      lines.push(
+        `<dc:title id="subtitle">${escapeXml(metadata.subtitle)}</dc:title>`
+      );
+      lines.push(
+        `<meta refines="#subtitle" property="title-type">subtitle</meta>`
+      );
+    }
+
+    const relators = Object.fromEntries(
+      Object.entries(RELATOR_ROLES).map(([code, role]) => [role, code])
+    );
+    const people = (element: string, list: Creator[]) =>
+      list.forEach((person, i) => {
+        const id = `${element}-${i + 1}`;
+        lines.push(
+          `<dc:${element} id="${id}">${escapeXml(person.name)}</dc:${element}>`
+        );
+        if (relators[person.role]) {
+          lines.push(
+            `<meta refines="#${id}" property="role" scheme="marc:relators">${
+              relators[person.role]
+            }</meta>`
+          );
+        }
+        if (person.fileAs) {
+          lines.push(
+            `<meta refines="#${id}" property="file-as">${escapeXml(
+              person.fileAs
+            )}</meta>`
+          );
+        }
+      });
+    people(
+      "creator",
+      metadata.creators || [{ name: metadata.author, role: "author" }]
+    );
+    people("contributor", metadata.contributors || []);
+
+    lines.push(`<dc:language>${escapeXml(language)}</dc:language>`);
+    if (metadata.publisher) {
+      lines.push(
+        `<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`
+      );
+    }
+    if (metadata.publicationDate) {
+      lines.push(`<dc:date>${escapeXml(metadata.publicationDate)}</dc:date>`);
+    }
+    if (metadata.description) {
+      lines.push(
+        `<dc:description>${escapeXml(metadata.description)}</dc:description>`
+      );
+    }
+    (metadata.subjects || (metadata.genre ? [metadata.genre] : [])).forEach(
+      (subject: string) =>
+        lines.push(`<dc:subject>${escapeXml(subject)}</dc:subject>`)
+    );
+    if (metadata.rights) {
+      lines.push(`<dc:rights>${escapeXml(metadata.rights)}</dc:rights>`);
+    }
+    if (metadata.series?.name) {
+      lines.push(
+        `<meta property="belongs-to-collection" id="series">${escapeXml(
+          metadata.series.name
+        )}</meta>`
+      );
+      lines.push(
+        `<meta refines="#series" property="collection-type">series</meta>`
+      );
+      if (metadata.series.index !== undefined) {
+        lines.push(
+          `<meta refines="#series" property="group-position">${metadata.series.index}</meta>`
+        );
+      }
+    }
+
+    const cover = items.find((item) => item.properties === "cover-image");
+    if (cover) {
+      lines.push(`<meta name="cover" content="${cover.id}"/>`);
+    }
+    lines.push(
+      `<meta property="dcterms:modified">${new Date()
+        .toISOString()
+        .replace(/\.\d+Z$/, "Z")}</meta>`
+    );
+
+    const manifest = items.map(
+      (item) =>
+        `<item id="${item.id}" href="${escapeXml(item.href)}" media-type="${
+          item.mediaType
+        }"${item.properties ? ` properties="${item.properties}"` : ""}/>`
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(
+      language
+    )}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${lines.join("\n")}
+</metadata>
+<manifest>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.map((id) => `<itemref idref="${id}"/>`).join("\n")}
+</spine>
+</package>
+`;
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("export-epub")
+  .description("Build an EPUB 3 from a converted book directory")
+  .version("1.0.0")
+  .argument("<book-directory>", "Path to the book directory")
+  .option("-o, --output <file>", "Output EPUB path")
+  .option(
+    "-a, --audio <provider>",
+    "Embed chapter audio generated by this provider (google, openai, elevenlabs)"
+  )
+  .action(async (bookDir: string, options: any) => {
+    try {
+      const exporter = new EpubExporter(bookDir, {
+        outputPath: options.output ? path.resolve(options.output) : undefined,
+        audioProvider: options.audio as TTSProvider | undefined,
+      });
+      const outputPath = await exporter.export();
+      console.log(
+        chalk.green(
+          `✅ Exported EPUB: ${path.relative(process.cwd(), outputPath)}`
+        )
+      );
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { EpubExporter, ExportOptions };
@@ -0,0 +1,56 @@
+import * as YAML from "yaml";
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Fields the converter writes into every chapter's front matter
+const PIPELINE_FIELDS = ["book", "id", "order"];
+
+/**
+ * Prefix Markdown with a YAML front matter block; undefined fields are left out
+ */
+function addFrontMatter(data: Record<string, unknown>, body: string): string {
+  return `---\n${YAML.stringify(data, { indent: 2 })}---\n\n${body}`;
+}
+
+/**
+ * The fields of a front matter block written by the converter; null for
+ * anything else, such as text between two `---` horizontal rules
+ */
+function readPipelineFields(yaml: string): Record<string, unknown> | null {
+  try {
+    const data = YAML.parse(yaml);
+    return data &&
+      typeof data === "object" &&
+      !Array.isArray(data) &&
+      PIPELINE_FIELDS.every((field) => field in data)
+      ? data
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a chapter file into its front matter fields and Markdown body. Files
+ * without front matter from this pipeline come back unchanged with empty data.
+ */
+function parseFrontMatter(markdown: string): {
+  data: Record<string, unknown>;
+  body: string;
+} {
+  const match = FRONT_MATTER.exec(markdown);
+  const data = match ? readPipelineFields(match[1]) : null;
+  if (!match || !data) {
+    return { data: {}, body: markdown };
+  }
+  return {
+    data,
+    body: markdown.slice(match[0].length).replace(/^\r?\n/, ""),
+  };
+}
+
+function stripFrontMatter(markdown: string): string {
+  return parseFrontMatter(markdown).body;
+}
+
+export { addFrontMatter, parseFrontMatter, stripFrontMatter };
@@ -9,13 +9,14 @@ import { Command } from "commander";
 import inquirer from "inquirer";
 import { UnifiedAudioGenerator } from "./audio-generator";
 import { ConfigManager } from "../config/config-manager";
-import { TTSProvider, ChapterAudioOptions } from "../config/types";
+import { TTSProvider, ChapterAudioOptions, SectionRole } from "../config/types";
 
 interface Chapter {
   id: string;
   title: string;
   order: number;
   filename: string;
+  role?: SectionRole;
 }
 
 interface BookMetadata {
@@ -97,6 +98,11 @@ class ChapterAudioGenerator {
       ? await fs.readdir(audioDir)
       : [];
 
+    const skipRoles = ConfigManager.getEffectiveOptions(
+      this.provider,
+      this.options
+    ).skip_roles;
+
     for (const chapter of toc.chapters) {
       const chapterNumber = String(chapter.order).padStart(2, "0");
       const hasAudio = existingAudio.some((file) =>
@@ -105,11 +111,20 @@ class ChapterAudioGenerator {
 
       const status = hasAudio ? chalk.green("🎵") : chalk.gray("⚪");
       const chapterInfo = `${chapterNumber}. ${chapter.title}`;
+      const isSkipped = chapter.role && skipRoles.includes(chapter.role);
+      const roleInfo = isSkipped
+        ? chalk.gray(` [${chapter.role}, skipped]`)
+        : "";
 
-      console.log(`  ${status} ${chapterInfo}`);
+      console.log(`  ${status} ${chapterInfo}${roleInfo}`);
     }
 
     console.log(chalk.gray(`\n🎵 = Audio available, ⚪ = No audio`));
+    console.log(
+      chalk.gray(
+        `Sections marked "skipped" are left out of full-book generation but can be generated explicitly`
+      )
+    );
     console.log(
       chalk.magenta(
         `🤖 Current provider: ${
@@ -211,12 +226,12 @@ class ChapterAudioGenerator {
     await fs.writeFile(originalTocPath, YAML.stringify(singleChapterToc));
 
     try {
-      // Generate audio using the unified generator
-      const generator = new UnifiedAudioGenerator(
-        this.bookDir,
-        this.provider,
-        this.options
-      );
+      // Generate audio using the unified generator; an explicitly requested
+      // chapter is voiced even if its role is normally skipped
+      const generator = new UnifiedAudioGenerator(this.bookDir, this.provider, {
+        ...this.options,
+        skip_roles: [],
+      });
       await generator.generateBookAudio();
 
       console.log(chalk.green(`\n✅ Audio generated successfully!`));
@@ -334,7 +349,10 @@ program
   )
   .option("-v, --voice <voice>", "Voice to use for generation")
   .option("-m, --model <model>", "Model to use for generation")
-  .option("-f, --format <format>", "Audio format")
+  .option(
+    "-f, --format <format>",
+    "Output format: one of the provider's formats (wav, mp3, opus, aac, flac) or opus-mobile, mp3-mobile"
+  )
   .option("--force", "Force regeneration even if audio exists")
   .action(async (bookDir: string, chapters: string[], options: any) => {
     try {
@@ -0,0 +1,314 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { SectionRole, TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import { stripFrontMatter } from "./front-matter";
+import { listAudioProviders, listChapterAudio } from "./audio-files";
+
+interface CatalogEntry {
+  slug: string;
+  title: string;
+  author: string;
+  language?: string;
+  series?: { name: string; index?: number };
+  chapters: number;
+  words: number;
+  // Percentage of narrated chapters with generated audio, per provider
+  audio: Partial<Record<TTSProvider, number>>;
+  processingDate?: string;
+}
+
+// books/catalog.yml
+interface Catalog {
+  generatedAt: string;
+  books: CatalogEntry[];
+}
+
+// "words>50000", "author~tolkien", "audio.google>=50"
+interface CatalogFilter {
+  field: string;
+  operator: "=" | "!=" | ">" | ">=" | "<" | "<=" | "~";
+  value: string;
+}
+
+const FIELDS = [
+  "slug",
+  "title",
+  "author",
+  "language",
+  "series",
+  "chapters",
+  "words",
+] as const;
+
+type CatalogField = (typeof FIELDS)[number];
+
+function isCatalogField(field: string): field is CatalogField {
+  return (FIELDS as readonly string[]).includes(field);
+}
+
+function fieldValue(entry: CatalogEntry, field: string): string | number {
+  if (field.startsWith("audio.")) {
+    return entry.audio[field.slice(6) as TTSProvider] ?? 0;
+  }
+  if (!isCatalogField(field)) {
+    throw new Error(
+      `Unknown catalog field "${field}" (use ${FIELDS.join(
+        ", "
+      )} or audio.<provider>)`
+    );
+  }
+  const value = entry[field];
+  return typeof value === "object" ? value.name : value ?? "";
+}
+
+function parseFilter(expression: string): CatalogFilter {
+  const match = /^([\w.]+)\s*(>=|<=|!=|=|>|<|~)\s*(.+)$/.exec(expression);
+  if (!match) {
+    throw new Error(
+      `Invalid filter "${expression}" (expected e.g. words>50000, author~fry)`
+    );
+  }
+  return {
+    field: match[1],
+    operator: match[2] as CatalogFilter["operator"],
+    value: match[3].trim(),
+  };
+}
+
+function matchesFilter(entry: CatalogEntry, filter: CatalogFilter): boolean {
+  const actual = fieldValue(entry, filter.field);
+  if (filter.operator === "~") {
+    return String(actual).toLowerCase().includes(filter.value.toLowerCase());
+  }
+
+  const expected =
+    typeof actual === "number" ? parseFloat(filter.value) : filter.value;
+  const compare =
+    typeof actual === "number"
+      ? actual - (expected as number)
+      : String(actual).localeCompare(String(expected), undefined, {
+          sensitivity: "base",
+        });
+  switch (filter.operator) {
+    case "=":
+      return compare === 0;
+    case "!=":
+      return compare !== 0;
+    case ">":
+      return compare > 0;
+    case ">=":
+      return compare >= 0;
+    case "<":
+      return compare < 0;
+    case "<=":
+      return compare <= 0;
+  }
+}
+
+class Library {
+  private booksRoot: string;
+
+  constructor(booksRoot: string = path.join(process.cwd(), "books")) {
+    this.booksRoot = path.resolve(booksRoot);
+  }
+
+  get catalogPath(): string {
+    return path.join(this.booksRoot, "catalog.yml");
+  }
+
+  /**
+   * Scan every converted book under the books root and rewrite catalog.yml
+   */
+  async update(): Promise<Catalog> {
+    if (!(await fs.pathExists(this.booksRoot))) {
+      throw new Error(`Books directory not found: ${this.booksRoot}`);
+    }
+
+    const books: CatalogEntry[] = [];
+    for (const slug of (await fs.readdir(this.booksRoot)).sort()) {
+      const bookDir = path.join(this.booksRoot, slug);
+      if (
+        !(await fs.pathExists(path.join(bookDir, "metadata.yml"))) ||
+        !(await fs.pathExists(path.join(bookDir, "toc.yml")))
+      ) {
+        continue;
+      }
+
+      try {
+        books.push(await this.scanBook(bookDir));
+      } catch (error) {
+        console.warn(chalk.yellow(`⚠️  Skipping ${slug}: ${error}`));
+      }
+    }
+
+    const catalog: Catalog = { generatedAt: new Date().toISOString(), books };
+    await fs.writeFile(
+      this.catalogPath,
+      YAML.stringify(catalog, { indent: 2 })
+    );
+    return catalog;
+  }
+
+  private async scanBook(bookDir: string): Promise<CatalogEntry> {
+    const metadata = YAML.parse(
+      await fs.readFile(path.join(bookDir, "metadata.yml"), "utf-8")
+    );
+    const toc = YAML.parse(
+      await fs.readFile(path.join(bookDir, "toc.yml"), "utf-8")
+    );
+    const chapters: Array<{
+      order: number;
+      filename: string;
+      role?: SectionRole;
+    }> = toc.chapters || [];
+
+    // Counted from the files, so hand edits since conversion are included
+    let words = 0;
+    for (const chapter of chapters) {
+      const chapterPath = path.join(
+        bookDir,
+        "content",
+        "chapters",
+        chapter.filename
+      );
+      if (await fs.pathExists(chapterPath)) {
+        const text = stripFrontMatter(await fs.readFile(chapterPath, "utf-8"));
+        words += text.split(/\s+/).filter(Boolean).length;
+      }
+    }
+
+    // Sections in narration.skip_roles never get audio, so they do not count
+    const { skip_roles } = ConfigManager.getGlobalSettings().narration;
+    const narrated = chapters.filter(
+      (chapter) => !(chapter.role && skip_roles.includes(chapter.role))
+    );
+    const audio: CatalogEntry["audio"] = {};
+    for (const provider of await listAudioProviders(bookDir)) {
+      const files = await listChapterAudio(bookDir, provider);
+      const voiced = narrated.filter((c) => files.has(c.order)).length;
+      audio[provider] =
+        narrated.length > 0
+          ? Math.round((voiced / narrated.length) * 1000) / 10
+          : 0;
+    }
+
+    return {
+      slug: path.basename(bookDir),
+      title: metadata.title,
+      author: metadata.author,
+      language: metadata.language,
+      series: metadata.series,
+      chapters: chapters.length,
+      words,
+      audio,
+      processingDate: metadata.processingDate,
+    };
+  }
+}
+
+function printCatalog(books: CatalogEntry[]): void {
+  if (books.length === 0) {
+    console.log(chalk.yellow("No books match."));
+    return;
+  }
+
+  const providers = Array.from(
+    new Set(books.flatMap((book) => Object.keys(book.audio)))
+  ).sort();
+  const rows = books.map((book) => [
+    book.title,
+    book.author,
+    String(book.chapters),
+    book.words.toLocaleString("en-US"),
+    ...providers.map((provider) => {
+      const coverage = book.audio[provider as TTSProvider];
+      return coverage === undefined ? "-" : `${coverage}%`;
+    }),
+  ]);
+  const header = ["Title", "Author", "Chapters", "Words", ...providers];
+  const widths = header.map((title, i) =>
+    Math.min(40, Math.max(title.length, ...rows.map((row) => row[i].length)))
+  );
+  const format = (cells: string[]) =>
+    cells
+      .map((cell, i) => {
+        const text =
+          cell.length > widths[i] ? `${cell.slice(0, widths[i] - 1)}…` : cell;
+        return i >= 2 ? text.padStart(widths[i]) : text.padEnd(widths[i]);
+      })
+      .join("  ");
+
+  console.log(chalk.bold(format(header)));
+  rows.forEach((row) => console.log(format(row)));
+  console.log(
+    chalk.gray(`\n${books.length} book${books.length === 1 ? "" : "s"}`)
+  );
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("library")
+  .description("Build books/catalog.yml and list the books in the library")
+  .version("1.0.0")
+  .argument("[books-root]", "Directory holding the book folders", "books")
+  .option(
+    "-f, --filter <expression>",
+    "Filter on a field, e.g. words>50000, author~fry, audio.google>=100 (repeatable)",
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[]
+  )
+  .option(
+    "-s, --sort <field>",
+    "Sort by title, author, chapters, words or audio.<provider>",
+    "title"
+  )
+  .option("-d, --desc", "Sort in descending order")
+  .option("--json", "Print the (filtered, sorted) catalog as JSON")
+  .action(async (booksRoot: string, options: any) => {
+    try {
+      const library = new Library(booksRoot);
+      const catalog = await library.update();
+      const filters = (options.filter as string[]).map(parseFilter);
+
+      const books = catalog.books
+        .filter((book) => filters.every((f) => matchesFilter(book, f)))
+        .sort((a, b) => {
+          const x = fieldValue(a, options.sort);
+          const y = fieldValue(b, options.sort);
+          const order =
+            typeof x === "number" && typeof y === "number"
+              ? x - y
+              : String(x).localeCompare(String(y));
+          return options.desc ? -order : order;
+        });
+
+      if (options.json) {
+        console.log(
+          JSON.stringify({ generatedAt: catalog.generatedAt, books }, null, 2)
+        );
+        return;
+      }
+
+      printCatalog(books);
+      console.log(
+        chalk.gray(
+          `📇 Catalog: ${path.relative(process.cwd(), library.catalogPath)}`
+        )
+      );
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { Library, Catalog, CatalogEntry };
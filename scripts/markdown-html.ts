@@ -0,0 +1,84 @@
+import * as cheerio from "cheerio";
+import { marked } from "marked";
+
+interface Footnote {
+  label: string;
+  markdown: string;
+}
+
+/**
+ * Pull `[^n]: ...` definitions (with their indented continuation lines) out
+ * of a chapter, the way BookProcessor writes them
+ */
+function extractFootnotes(markdown: string): {
+  body: string;
+  footnotes: Footnote[];
+} {
+  const lines = markdown.split("\n");
+  const body: string[] = [];
+  const footnotes: Footnote[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const definition = /^\[\^([^\]\s]+)\]:[ \t]?(.*)$/.exec(lines[i]);
+    if (!definition) {
+      body.push(lines[i]);
+      continue;
+    }
+
+    const noteLines = [definition[2]];
+    while (
+      i + 1 < lines.length &&
+      (/^ {4}/.test(lines[i + 1]) ||
+        (!lines[i + 1].trim() && /^ {4}/.test(lines[i + 2] || "")))
+    ) {
+      noteLines.push(lines[++i].replace(/^ {4}/, ""));
+    }
+    footnotes.push({ label: definition[1], markdown: noteLines.join("\n") });
+  }
+
+  return { body: body.join("\n").trimEnd(), footnotes };
+}
+
+/**
+ * Render chapter Markdown to HTML. Footnotes become EPUB 3 noterefs and
+ * footnote asides at the end of the chapter.
+ */
+function renderMarkdown(markdown: string): string {
+  const { body, footnotes } = extractFootnotes(markdown);
+  const labels = new Set(footnotes.map((note) => note.label));
+  const noteId = (label: string) =>
+    `fn-${label.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+
+  const withRefs = body.replace(/\[\^([^\]\s]+)\]/g, (match, label) =>
+    labels.has(label)
+      ? `<sup><a epub:type="noteref" role="doc-noteref" href="#${noteId(
+          label
+        )}" id="${noteId(label)}-ref">${label}</a></sup>`
+      : match
+  );
+
+  const notes = footnotes.map(
+    (note) =>
+      `<aside epub:type="footnote" role="doc-footnote" id="${noteId(
+        note.label
+      )}">${marked.parse(
+        `<a href="#${noteId(note.label)}-ref">${note.label}</a> ${
+          note.markdown
+        }`,
+        { async: false }
+      )}</aside>`
+  );
+
+  return [marked.parse(withRefs, { async: false }), ...notes].join("\n");
+}
+
+/**
+ * Re-serialize an HTML fragment as well-formed XHTML (closed void elements,
+ * quoted attributes, escaped text)
+ */
+function toXhtml(html: string): string {
+  const $ = cheerio.load(html, { xml: false }, false);
+  return $.xml();
+}
+
+export { renderMarkdown, toXhtml, extractFootnotes };
@@ -0,0 +1,440 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { Creator } from "./epub-package";
+import { BookMetadata } from "./book-metadata";
+import { escapeXml, primaryIdentifier } from "./xml-utils";
+
+interface OpdsBook {
+  slug: string;
+  metadata: BookMetadata;
+  authors: Array<{ name: string; sortAs: string }>;
+  updated: string;
+  acquisitions: Array<{ href: string; type: string; title: string }>;
+}
+
+interface OpdsOptions {
+  // Defaults to books/opds
+  outputDir?: string;
+  // Number of books in the "Recently processed" feed
+  recent?: number;
+}
+
+interface FeedSpec {
+  file: string;
+  id: string;
+  title: string;
+  kind: "navigation" | "acquisition";
+  up?: string;
+  // What a navigation feed lists ("authors"); acquisition feeds list books
+  noun?: string;
+  entries: string[];
+}
+
+const NAVIGATION_TYPE =
+  "application/atom+xml;profile=opds-catalog;kind=navigation";
+const ACQUISITION_TYPE =
+  "application/atom+xml;profile=opds-catalog;kind=acquisition";
+
+const BOOK_TYPES: Record<string, string> = {
+  ".epub": "application/epub+zip",
+  ".pdf": "application/pdf",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+function slugify(text: string): string {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "untitled"
+  );
+}
+
+class OpdsCatalog {
+  private booksRoot: string;
+  private options: OpdsOptions;
+
+  constructor(
+    booksRoot: string = path.join(process.cwd(), "books"),
+    options: OpdsOptions = {}
+  ) {
+    this.booksRoot = path.resolve(booksRoot);
+    this.options = options;
+  }
+
+  get outputDir(): string {
+    return this.options.outputDir || path.join(this.booksRoot, "opds");
+  }
+
+  // Links are relative so the catalog works from any static host
+  private bookHref(slug: string, relativePath: string): string {
+    const toRoot = path.relative(this.outputDir, this.booksRoot);
+    return [
+      ...toRoot.split(path.sep).filter(Boolean),
+      ...[slug, ...relativePath.split(/[\\/]/)].map(encodeURIComponent),
+    ].join("/");
+  }
+
+  /**
+   * Write the root navigation feed (catalog.xml) and the acquisition feeds
+   * it links to. Returns the number of books cataloged.
+   */
+  async write(): Promise<number> {
+    if (!(await fs.pathExists(this.booksRoot))) {
+      throw new Error(`Books directory not found: ${this.booksRoot}`);
+    }
+
+    const books: OpdsBook[] = [];
+    for (const slug of (await fs.readdir(this.booksRoot)).sort()) {
+      const metadataPath = path.join(this.booksRoot, slug, "metadata.yml");
+      if (!(await fs.pathExists(metadataPath))) continue;
+
+      try {
+        books.push(await this.loadBook(slug));
+      } catch (error) {
+        console.warn(chalk.yellow(`⚠️  Skipping ${slug}: ${error}`));
+      }
+    }
+
+    const byTitle = [...books].sort((a, b) =>
+      String(a.metadata.title).localeCompare(String(b.metadata.title))
+    );
+    const feeds: FeedSpec[] = [
+      {
+        file: "all.xml",
+        id: "urn:books-repo:opds:all",
+        title: "All books",
+        kind: "acquisition",
+        up: "catalog.xml",
+        entries: byTitle.map((book) => this.bookEntry(book)),
+      },
+      {
+        file: "recent.xml",
+        id: "urn:books-repo:opds:recent",
+        title: "Recently processed",
+        kind: "acquisition",
+        up: "catalog.xml",
+        entries: [...books]
+          .sort((a, b) => b.updated.localeCompare(a.updated))
+          .slice(0, this.options.recent ?? 20)
+          .map((book) => this.bookEntry(book)),
+      },
+    ];
+
+    // By author: one acquisition feed per author, listed by sort name
+    const authors = new Map<string, { sortAs: string; books: OpdsBook[] }>();
+    for (const book of byTitle) {
+      for (const author of book.authors) {
+        if (!authors.has(author.name)) {
+          authors.set(author.name, { sortAs: author.sortAs, books: [] });
+        }
+        authors.get(author.name)!.books.push(book);
+      }
+    }
+    const authorFeeds = this.groupFeeds(
+      "author",
+      Array.from(authors.entries())
+        .sort((a, b) => a[1].sortAs.localeCompare(b[1].sortAs))
+        .map(([name, group]) => ({ name, books: group.books }))
+    );
+    feeds.push(
+      this.navigationFeed("authors.xml", "By author", "authors", authorFeeds),
+      ...authorFeeds
+    );
+
+    // By series: books in reading order
+    const series = new Map<string, OpdsBook[]>();
+    for (const book of books) {
+      const name = book.metadata.series?.name;
+      if (!name) continue;
+      if (!series.has(name)) series.set(name, []);
+      series.get(name)!.push(book);
+    }
+    const seriesFeeds = this.groupFeeds(
+      "series",
+      Array.from(series.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([name, group]) => ({
+          name,
+          books: group.sort(
+            (a, b) =>
+              (a.metadata.series!.index ?? Infinity) -
+              (b.metadata.series!.index ?? Infinity)
+          ),
+        }))
+    );
+    feeds.push(
+      this.navigationFeed("series.xml", "By series", "series", seriesFeeds),
+      ...seriesFeeds
+    );
+
+    const root = this.navigationFeed(
+      "catalog.xml",
+      "Library",
+      "sections",
+      feeds.filter((feed) =>
+        ["all.xml", "authors.xml", "series.xml", "recent.xml"].includes(
+          feed.file
+        )
+      )
+    );
+    delete root.up;
+
+    // Rewrite from scratch so removed authors and series disappear
+    await fs.ensureDir(this.outputDir);
+    for (const file of await fs.readdir(this.outputDir)) {
+      if (file.endsWith(".xml")) {
+        await fs.remove(path.join(this.outputDir, file));
+      }
+    }
+    for (const feed of [root, ...feeds]) {
+      await fs.writeFile(
+        path.join(this.outputDir, feed.file),
+        this.renderFeed(feed)
+      );
+    }
+    return books.length;
+  }
+
+  private async loadBook(slug: string): Promise<OpdsBook> {
+    const bookDir = path.join(this.booksRoot, slug);
+    const metadataPath = path.join(bookDir, "metadata.yml");
+    const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+
+    const creators: Creator[] = (metadata.creators || []).filter(
+      (creator: Creator) => (creator.role || "author") === "author"
+    );
+    const authors =
+      creators.length > 0
+        ? creators.map((creator) => ({
+            name: creator.name,
+            sortAs: creator.fileAs || creator.name,
+          }))
+        : [
+            {
+              name: metadata.author || "Unknown",
+              sortAs: metadata.author || "",
+            },
+          ];
+
+    const acquisitions: OpdsBook["acquisitions"] = [];
+    for (const [dir, label] of [
+      ["source", "Original"],
+      ["export", "Re-exported"],
+    ]) {
+      if (!(await fs.pathExists(path.join(bookDir, dir)))) continue;
+      for (const file of (await fs.readdir(path.join(bookDir, dir))).sort()) {
+        const extension = path.extname(file).toLowerCase();
+        if (!BOOK_TYPES[extension]) continue;
+        acquisitions.push({
+          href: this.bookHref(slug, `${dir}/${file}`),
+          type: BOOK_TYPES[extension],
+          title: `${label} ${extension.slice(1).toUpperCase()}`,
+        });
+      }
+    }
+
+    const updated = metadata.processingDate
+      ? new Date(metadata.processingDate).toISOString()
+      : (await fs.stat(metadataPath)).mtime.toISOString();
+    return { slug, metadata, authors, updated, acquisitions };
+  }
+
+  private groupFeeds(
+    prefix: string,
+    groups: Array<{ name: string; books: OpdsBook[] }>
+  ): FeedSpec[] {
+    const used = new Set<string>();
+    return groups.map((group) => {
+      // Names that slugify alike ("O'Brien", "OBrien") get a numeric suffix
+      let slug = slugify(group.name);
+      for (let n = 2; used.has(slug); n++) slug = `${slugify(group.name)}-${n}`;
+      used.add(slug);
+
+      return {
+        file: `${prefix}-${slug}.xml`,
+        id: `urn:books-repo:opds:${prefix}:${slug}`,
+        title: group.name,
+        kind: "acquisition",
+        up: `${prefix === "author" ? "authors" : prefix}.xml`,
+        entries: group.books.map((book) => this.bookEntry(book)),
+      };
+    });
+  }
+
+  private navigationFeed(
+    file: string,
+    title: string,
+    noun: string,
+    targets: FeedSpec[]
+  ): FeedSpec {
+    const now = new Date().toISOString();
+    return {
+      file,
+      id: `urn:books-repo:opds:${path.basename(file, ".xml")}`,
+      title,
+      kind: "navigation",
+      up: "catalog.xml",
+      noun,
+      entries: targets.map((target) => {
+        const count = target.entries.length;
+        const noun = target.noun || (count === 1 ? "book" : "books");
+        return `<entry>
+    <title>${escapeXml(target.title)}</title>
+    <id>${escapeXml(target.id)}</id>
+    <updated>${now}</updated>
+    <content type="text">${count} ${noun}</content>
+    <link rel="subsection" href="${escapeXml(target.file)}" type="${
+          target.kind === "acquisition" ? ACQUISITION_TYPE : NAVIGATION_TYPE
+        }"/>
+  </entry>`;
+      }),
+    };
+  }
+
+  private bookEntry(book: OpdsBook): string {
+    const { metadata } = book;
+    const lines = [
+      `<title>${escapeXml(metadata.title)}</title>`,
+      `<id>${escapeXml(primaryIdentifier(metadata))}</id>`,
+      `<updated>${book.updated}</updated>`,
+      ...book.authors.map(
+        (author) => `<author><name>${escapeXml(author.name)}</name></author>`
+      ),
+    ];
+    if (metadata.language) {
+      lines.push(`<dc:language>${escapeXml(metadata.language)}</dc:language>`);
+    }
+    if (metadata.publisher) {
+      lines.push(
+        `<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`
+      );
+    }
+    if (metadata.publicationDate) {
+      lines.push(
+        `<dc:issued>${escapeXml(String(metadata.publicationDate))}</dc:issued>`
+      );
+    }
+    for (const subject of metadata.subjects || []) {
+      lines.push(
+        `<category term="${escapeXml(subject)}" label="${escapeXml(subject)}"/>`
+      );
+    }
+    const summary = [
+      metadata.series?.name
+        ? `${metadata.series.name}${
+            metadata.series.index ? ` #${metadata.series.index}` : ""
+          }.`
+        : "",
+      metadata.description || "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+    if (summary) {
+      lines.push(`<summary>${escapeXml(summary)}</summary>`);
+    }
+
+    const { cover } = metadata;
+    const coverType = cover
+      ? IMAGE_TYPES[path.extname(cover).toLowerCase()]
+      : undefined;
+    if (cover && coverType) {
+      const href = escapeXml(this.bookHref(book.slug, cover));
+      lines.push(
+        `<link rel="http://opds-spec.org/image" href="${href}" type="${coverType}"/>`,
+        `<link rel="http://opds-spec.org/image/thumbnail" href="${href}" type="${coverType}"/>`
+      );
+    }
+    for (const acquisition of book.acquisitions) {
+      lines.push(
+        `<link rel="http://opds-spec.org/acquisition" href="${escapeXml(
+          acquisition.href
+        )}" type="${acquisition.type}" title="${acquisition.title}"/>`
+      );
+    }
+
+    return `<entry>\n${lines
+      .map((line) => `    ${line}`)
+      .join("\n")}\n  </entry>`;
+  }
+
+  private renderFeed(feed: FeedSpec): string {
+    const type =
+      feed.kind === "navigation" ? NAVIGATION_TYPE : ACQUISITION_TYPE;
+    const links = [
+      `<link rel="self" href="${feed.file}" type="${type}"/>`,
+      `<link rel="start" href="catalog.xml" type="${NAVIGATION_TYPE}"/>`,
+      `<link rel="http://opds-spec.org/sort/new" href="recent.xml" type="${ACQUISITION_TYPE}"/>`,
+    ];
+    if (feed.up) {
+      links.push(
+        `<link rel="up" href="${feed.up}" type="${NAVIGATION_TYPE}"/>`
+      );
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/terms/" xmlns:opds="http://opds-spec.org/2010/catalog">
+  <id>${escapeXml(feed.id)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <updated>${new Date().toISOString()}</updated>
+  <author><name>books-repo</name></author>
+${links.map((link) => `  ${link}`).join("\n")}
+${feed.entries.map((entry) => `  ${entry}`).join("\n")}
+</feed>
+`;
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("opds")
+  .description("Write a static OPDS 1.2 catalog of the converted library")
+  .version("1.0.0")
+  .argument("[books-root]", "Directory holding the book folders", "books")
+  .option("-o, --output <dir>", "Output directory (default: <books-root>/opds)")
+  .option("--recent <count>", "Books in the recently processed feed", "20")
+  .action(async (booksRoot: string, options: any) => {
+    try {
+      const catalog = new OpdsCatalog(booksRoot, {
+        outputDir: options.output ? path.resolve(options.output) : undefined,
+        recent: parseInt(options.recent),
+      });
+      const count = await catalog.write();
+      console.log(
+        chalk.green(
+          `✅ Cataloged ${count} book${
+            count === 1 ? "" : "s"
+          } → ${path.relative(
+            process.cwd(),
+            path.join(catalog.outputDir, "catalog.xml")
+          )}`
+        )
+      );
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { OpdsCatalog, OpdsOptions };
@@ -0,0 +1,502 @@
+import * as fs from "fs-extra";
+import pdfParse from "pdf-parse";
+
+interface PdfLine {
+  text: string;
+  y: number;
+  height: number;
+}
+
+interface PdfPage {
+  index: number;
+  height: number;
+  lines: PdfLine[];
+}
+
+interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+}
+
+interface PdfSection {
+  title: string;
+  markdown: string;
+  startPage: number;
+}
+
+interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  creationDate?: string;
+  pageCount: number;
+}
+
+interface ExtractedPdf {
+  info: PdfDocumentInfo;
+  sections: PdfSection[];
+  chapterSource: "outline" | "headings" | "single";
+  strippedLines: number;
+}
+
+// The parts of pdf.js, as bundled with pdf-parse, that are read here
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  height?: number;
+}
+
+interface PdfOutlineItem {
+  title?: string;
+  // A named destination, or an explicit one led by the page reference
+  dest: string | unknown[] | null;
+  items?: PdfOutlineItem[];
+}
+
+interface PdfDocumentProxy {
+  getOutline(): Promise<PdfOutlineItem[] | null>;
+  getDestination(id: string): Promise<unknown[] | null>;
+  getPageIndex(ref: unknown): Promise<number>;
+}
+
+interface PdfPageData {
+  pageIndex: number;
+  view?: number[];
+  transport: { pdfDocument: PdfDocumentProxy };
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: PdfTextItem[] }>;
+}
+
+interface PdfExtractionOptions {
+  // Fraction of pages a top/bottom line must repeat on to count as a running header/footer
+  runningLineThreshold: number;
+  // Heading lines must be at least this much larger than the body font
+  headingSizeRatio: number;
+  // Lines examined at the top and bottom of every page for headers/footers
+  marginLines: number;
+}
+
+const HEADING_KEYWORDS =
+  /^(chapter|part|book|section|prologue|epilogue|introduction|preface|foreword|afterword|appendix|conclusion)\b/i;
+const PAGE_NUMBER_PATTERN =
+  /^\s*(page\s+)?(\d{1,4}|[ivxlcdm]{1,7})(\s*(of|\/)\s*\d{1,4})?\s*$/i;
+
+class PdfExtractor {
+  private options: PdfExtractionOptions;
+
+  constructor(options: Partial<PdfExtractionOptions> = {}) {
+    this.options = {
+      runningLineThreshold: 0.3,
+      headingSizeRatio: 1.3,
+      marginLines: 2,
+      ...options,
+    };
+  }
+
+  async extract(pdfPath: string): Promise<ExtractedPdf> {
+    const data = await fs.readFile(pdfPath);
+    const pages: PdfPage[] = [];
+    let outline: OutlineEntry[] = [];
+
+    const result = await pdfParse(data, {
+      // pdf-parse only exposes pages through its render hook, so we collect
+      // positioned lines here and read the outline from the owning document
+      pagerender: async (pageData: PdfPageData) => {
+        if (pageData.pageIndex === 0) {
+          outline = await this.readOutline(pageData.transport.pdfDocument);
+        }
+
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: true,
+          disableCombineTextItems: false,
+        });
+        pages.push({
+          index: pageData.pageIndex,
+          height: pageData.view ? pageData.view[3] : 0,
+          lines: this.groupItemsIntoLines(textContent.items),
+        });
+        return "";
+      },
+    });
+
+    pages.sort((a, b) => a.index - b.index);
+    const strippedLines = this.stripRunningLines(pages);
+
+    let chapterSource: ExtractedPdf["chapterSource"] = "single";
+    let sections: PdfSection[] = [];
+
+    if (outline.length > 1) {
+      sections = this.splitByOutline(pages, outline);
+      chapterSource = "outline";
+    }
+
+    if (sections.length <= 1) {
+      const headingSections = this.splitByHeadings(pages);
+      if (headingSections.length > 1) {
+        sections = headingSections;
+        chapterSource = "headings";
+      }
+    }
+
+    if (sections.length === 0) {
+      sections = [
+        {
+          title: "",
+          markdown: this.linesToMarkdown(pages.flatMap((page) => page.lines)),
+          startPage: 0,
+        },
+      ];
+      chapterSource = "single";
+    }
+
+    return {
+      info: {
+        title: this.cleanInfoValue(result.info?.Title),
+        author: this.cleanInfoValue(result.info?.Author),
+        subject: this.cleanInfoValue(result.info?.Subject),
+        creationDate: this.parsePdfDate(result.info?.CreationDate),
+        pageCount: result.numpages,
+      },
+      sections: sections.filter(
+        (section) => section.markdown.trim().length > 0 || section.title
+      ),
+      chapterSource,
+      strippedLines,
+    };
+  }
+
+  private async readOutline(
+    pdfDocument: PdfDocumentProxy
+  ): Promise<OutlineEntry[]> {
+    const outline = await pdfDocument.getOutline().catch(() => null);
+    if (!outline || outline.length === 0) {
+      return [];
+    }
+
+    // A single top-level entry is usually the book title wrapping the real chapters
+    const items =
+      outline.length === 1 && outline[0].items?.length
+        ? outline[0].items
+        : outline;
+
+    const entries: OutlineEntry[] = [];
+    for (const item of items) {
+      const pageIndex = await this.resolveDestination(pdfDocument, item.dest);
+      if (pageIndex !== null && item.title?.trim()) {
+        entries.push({ title: item.title.trim(), pageIndex });
+      }
+    }
+
+    return entries.sort((a, b) => a.pageIndex - b.pageIndex);
+  }
+
+  private async resolveDestination(
+    pdfDocument: PdfDocumentProxy,
+    dest: PdfOutlineItem["dest"]
+  ): Promise<number | null> {
+    try {
+      const explicitDest =
+        typeof dest === "string"
+          ? await pdfDocument.getDestination(dest)
+          : dest;
+      if (!Array.isArray(explicitDest) || !explicitDest[0]) {
+        return null;
+      }
+
+      const ref = explicitDest[0];
+      return typeof ref === "number"
+        ? ref
+        : await pdfDocument.getPageIndex(ref);
+    } catch {
+      return null;
+    }
+  }
+
+  private groupItemsIntoLines(items: PdfTextItem[]): PdfLine[] {
+    const lines: PdfLine[] = [];
+
+    for (const item of items) {
+      const text: string = item.str;
+      if (!text) continue;
+
+      const y = item.transform[5];
+      const height = Math.abs(item.height || item.transform[3]) || 0;
+      const current = lines[lines.length - 1];
+
+      if (current && Math.abs(current.y - y) < Math.max(height, 1) * 0.5) {
+        const needsSpace = !current.text.endsWith(" ") && !text.startsWith(" ");
+        current.text += (needsSpace ? " " : "") + text;
+        current.height = Math.max(current.height, height);
+      } else {
+        lines.push({ text, y, height });
+      }
+    }
+
+    return lines
+      .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+      .filter((line) => line.text.length > 0);
+  }
+
+  private stripRunningLines(pages: PdfPage[]): number {
+    const marginKey = (text: string) =>
+      text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+
+    const counts = new Map<string, number>();
+    for (const page of pages) {
+      const seen = new Set<string>();
+      for (const line of this.marginLinesOf(page)) {
+        seen.add(marginKey(line.text));
+      }
+      seen.forEach((key) => counts.set(key, (counts.get(key) || 0) + 1));
+    }
+
+    const minimumRepeats = Math.max(
+      3,
+      Math.ceil(pages.length * this.options.runningLineThreshold)
+    );
+    let stripped = 0;
+
+    for (const page of pages) {
+      const margin = new Set(this.marginLinesOf(page));
+      const before = page.lines.length;
+
+      page.lines = page.lines.filter((line) => {
+        if (!margin.has(line)) return true;
+        if (PAGE_NUMBER_PATTERN.test(line.text)) return false;
+        return (counts.get(marginKey(line.text)) || 0) < minimumRepeats;
+      });
+
+      stripped += before - page.lines.length;
+    }
+
+    return stripped;
+  }
+
+  private marginLinesOf(page: PdfPage): PdfLine[] {
+    // Running headers and footers sit apart from the body, so only lines
+    // separated from their neighbour by an unusually large gap qualify
+    const lines = page.lines;
+    const gaps = lines.slice(1).map((line, i) => lines[i].y - line.y);
+    const typicalGap = this.median(gaps.filter((gap) => gap > 0));
+    const isSeparated = (gap: number) =>
+      typicalGap > 0 && gap > typicalGap * 1.5;
+
+    const margin: PdfLine[] = [];
+    for (let i = 0; i < this.options.marginLines && i < gaps.length; i++) {
+      if (!isSeparated(gaps[i])) break;
+      margin.push(lines[i]);
+    }
+    for (let i = 0; i < this.options.marginLines && i < gaps.length; i++) {
+      const lineIndex = lines.length - 1 - i;
+      if (
+        !isSeparated(gaps[lineIndex - 1]) ||
+        margin.includes(lines[lineIndex])
+      ) {
+        break;
+      }
+      margin.push(lines[lineIndex]);
+    }
+
+    return margin;
+  }
+
+  private splitByOutline(
+    pages: PdfPage[],
+    outline: OutlineEntry[]
+  ): PdfSection[] {
+    const sections: PdfSection[] = [];
+
+    // Anything before the first outline entry is front matter worth keeping
+    if (outline[0].pageIndex > 0) {
+      const frontLines = pages
+        .filter((page) => page.index < outline[0].pageIndex)
+        .flatMap((page) => page.lines);
+      if (frontLines.length > 0) {
+        sections.push({
+          title: "",
+          markdown: this.linesToMarkdown(frontLines),
+          startPage: 0,
+        });
+      }
+    }
+
+    outline.forEach((entry, i) => {
+      const endPage =
+        i + 1 < outline.length ? outline[i + 1].pageIndex : Infinity;
+      const lines = pages
+        .filter((page) => page.index >= entry.pageIndex && page.index < endPage)
+        .flatMap((page) => page.lines);
+
+      // Drop the printed heading that duplicates the outline title
+      if (lines.length > 0 && this.sameTitle(lines[0].text, entry.title)) {
+        lines.shift();
+      }
+
+      sections.push({
+        title: entry.title,
+        markdown: this.linesToMarkdown(lines),
+        startPage: entry.pageIndex,
+      });
+    });
+
+    return sections;
+  }
+
+  private splitByHeadings(pages: PdfPage[]): PdfSection[] {
+    const bodyHeight = this.bodyFontHeight(pages);
+    const sections: PdfSection[] = [];
+    let current: { title: string; lines: PdfLine[]; startPage: number } = {
+      title: "",
+      lines: [],
+      startPage: 0,
+    };
+
+    const flush = () => {
+      if (current.title || current.lines.length > 0) {
+        sections.push({
+          title: current.title,
+          markdown: this.linesToMarkdown(current.lines),
+          startPage: current.startPage,
+        });
+      }
+    };
+
+    for (const page of pages) {
+      page.lines.forEach((line, lineIndex) => {
+        if (this.isHeadingLine(line, lineIndex, bodyHeight)) {
+          // Consecutive heading lines ("Chapter 1" / "The Beginning") form one title
+          if (current.lines.length === 0 && current.title) {
+            current.title = `${current.title}: ${line.text}`;
+            return;
+          }
+          flush();
+          current = { title: line.text, lines: [], startPage: page.index };
+        } else {
+          current.lines.push(line);
+        }
+      });
+    }
+    flush();
+
+    return sections;
+  }
+
+  private isHeadingLine(
+    line: PdfLine,
+    lineIndex: number,
+    bodyHeight: number
+  ): boolean {
+    if (line.text.length > 80 || PAGE_NUMBER_PATTERN.test(line.text)) {
+      return false;
+    }
+
+    const isLarge =
+      bodyHeight > 0 &&
+      line.height >= bodyHeight * this.options.headingSizeRatio;
+    const isKeyword =
+      HEADING_KEYWORDS.test(line.text) &&
+      lineIndex < 3 &&
+      !/[.,;:]$/.test(line.text);
+
+    return isLarge || isKeyword;
+  }
+
+  private bodyFontHeight(pages: PdfPage[]): number {
+    // Most common line height, weighted by characters, is the body text size
+    const weights = new Map<number, number>();
+    for (const page of pages) {
+      for (const line of page.lines) {
+        const height = Math.round(line.height);
+        weights.set(height, (weights.get(height) || 0) + line.text.length);
+      }
+    }
+
+    let bodyHeight = 0;
+    let bestWeight = 0;
+    weights.forEach((weight, height) => {
+      if (weight > bestWeight) {
+        bestWeight = weight;
+        bodyHeight = height;
+      }
+    });
+
+    return bodyHeight;
+  }
+
+  private linesToMarkdown(lines: PdfLine[]): string {
+    const paragraphs: string[] = [];
+    let paragraph = "";
+    let previous: PdfLine | null = null;
+
+    const lineGaps = lines
+      .slice(1)
+      .map((line, i) => lines[i].y - line.y)
+      .filter((gap) => gap > 0);
+    const typicalGap = this.median(lineGaps);
+
+    for (const line of lines) {
+      const gap = previous ? previous.y - line.y : 0;
+      // A larger vertical gap, or a jump back up to a new page, ends the paragraph
+      const isBreak =
+        previous !== null &&
+        typicalGap > 0 &&
+        (gap > typicalGap * 1.5 || gap < 0) &&
+        /[.!?"'”’)]$/.test(previous.text);
+
+      if (isBreak && paragraph) {
+        paragraphs.push(paragraph);
+        paragraph = "";
+      }
+
+      if (!paragraph) {
+        paragraph = line.text;
+      } else if (/[a-z]-$/i.test(paragraph) && /^[a-z]/.test(line.text)) {
+        // Rejoin words hyphenated across a line break
+        paragraph = paragraph.slice(0, -1) + line.text;
+      } else {
+        paragraph += " " + line.text;
+      }
+
+      previous = line;
+    }
+
+    if (paragraph) {
+      paragraphs.push(paragraph);
+    }
+
+    return paragraphs.join("\n\n");
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  private sameTitle(a: string, b: string): boolean {
+    const normalize = (text: string) =>
+      text
+        .toLowerCase()
+        .replace(/[^\w]+/g, " ")
+        .trim();
+    return normalize(a) === normalize(b);
+  }
+
+  private cleanInfoValue(value: unknown): string | undefined {
+    if (typeof value !== "string") return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  private parsePdfDate(value: unknown): string | undefined {
+    // PDF dates look like "D:20230115093000+01'00'"
+    if (typeof value !== "string") return undefined;
+    const match = value.match(/^D?:?(\d{4})(\d{2})?(\d{2})?/);
+    if (!match) return undefined;
+    return [match[1], match[2], match[3]].filter(Boolean).join("-");
+  }
+}
+
+export { PdfExtractor, ExtractedPdf, PdfSection, PdfExtractionOptions };
@@ -0,0 +1,284 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import { BookMetadata } from "./book-metadata";
+import { escapeXml } from "./xml-utils";
+import {
+  audioDuration,
+  audioFormatForFile,
+  audioFormatMimeType,
+  audioMimeType,
+  listAudioProviders,
+  listChapterAudio,
+} from "./audio-files";
+
+interface Chapter {
+  id: string;
+  title: string;
+  order: number;
+  filename: string;
+  part?: string;
+}
+
+interface FeedOptions {
+  // Where the book directory is published; defaults to `npm run serve`
+  baseUrl?: string;
+}
+
+interface Episode {
+  chapter: Chapter;
+  url: string;
+  length: number;
+  type: string;
+  duration: number | null;
+}
+
+const DEFAULT_PORT = 3000;
+
+// HH:MM:SS, as itunes:duration expects
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+}
+
+// Each path segment is encoded so titles with spaces or "#" survive
+function joinUrl(baseUrl: string, relativePath: string): string {
+  const base = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+  return base + relativePath.split(path.sep).map(encodeURIComponent).join("/");
+}
+
+class PodcastFeed {
+  private bookDir: string;
+  private provider: TTSProvider;
+  private options: FeedOptions;
+
+  constructor(
+    bookDir: string,
+    provider: TTSProvider,
+    options: FeedOptions = {}
+  ) {
+    this.bookDir = path.resolve(bookDir);
+    this.provider = provider;
+    this.options = options;
+  }
+
+  get feedPath(): string {
+    return path.join(
+      ConfigManager.getAudioOutputDir(this.bookDir, this.provider),
+      "feed.xml"
+    );
+  }
+
+  get baseUrl(): string {
+    return (
+      this.options.baseUrl ||
+      `http://127.0.0.1:${DEFAULT_PORT}/books/${encodeURIComponent(
+        path.basename(this.bookDir)
+      )}/`
+    );
+  }
+
+  /**
+   * Write audio/<provider>/feed.xml with one episode per chapter audio file,
+   * in reading order. Returns the number of episodes.
+   */
+  async write(): Promise<number> {
+    const metadataPath = path.join(this.bookDir, "metadata.yml");
+    const tocPath = path.join(this.bookDir, "toc.yml");
+    if (
+      !(await fs.pathExists(metadataPath)) ||
+      !(await fs.pathExists(tocPath))
+    ) {
+      throw new Error(
+        `Book metadata or TOC not found in ${this.bookDir}\nRun conversion first with: npm run convert`
+      );
+    }
+
+    const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+    const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+    const chapters: Chapter[] = toc.chapters || [];
+
+    const audio = await listChapterAudio(this.bookDir, this.provider);
+    if (audio.size === 0) {
+      throw new Error(
+        `No ${this.provider} chapter audio in ${this.bookDir}\nGenerate it first with: npm run chapter-audio generate`
+      );
+    }
+
+    const episodes: Episode[] = [];
+    for (const chapter of chapters) {
+      const file = audio.get(chapter.order);
+      if (!file) continue;
+
+      const format = audioFormatForFile(this.provider, file);
+      const duration = await audioDuration(file, format);
+      if (duration === null) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  Could not determine the duration of ${path.basename(file)}`
+          )
+        );
+      }
+      episodes.push({
+        chapter,
+        url: joinUrl(this.baseUrl, path.relative(this.bookDir, file)),
+        length: (await fs.stat(file)).size,
+        type: format ? audioFormatMimeType(format) : audioMimeType(file),
+        duration,
+      });
+    }
+
+    await fs.ensureDir(path.dirname(this.feedPath));
+    await fs.writeFile(this.feedPath, this.render(metadata, episodes));
+    return episodes.length;
+  }
+
+  private render(metadata: BookMetadata, episodes: Episode[]): string {
+    const feedUrl = joinUrl(
+      this.baseUrl,
+      path.relative(this.bookDir, this.feedPath)
+    );
+    const coverUrl = metadata.cover
+      ? joinUrl(this.baseUrl, metadata.cover)
+      : null;
+    const author = metadata.author || "Unknown";
+    const description =
+      metadata.description ||
+      `${metadata.title} by ${author}, narrated with ${this.provider} TTS`;
+
+    // Podcast apps order by date, so episodes are a minute apart in
+    // chapter order, starting from the conversion date. Both keys come from
+    // the chapter order so they stay put when earlier chapters are voiced.
+    const start = new Date(metadata.processingDate || Date.now()).getTime();
+    const items = episodes.map((episode) => {
+      const { chapter } = episode;
+      const lines = [
+        `<title>${escapeXml(chapter.title)}</title>`,
+        `<guid isPermaLink="false">${escapeXml(
+          `${path.basename(this.bookDir)}:${this.provider}:${chapter.id}`
+        )}</guid>`,
+        `<pubDate>${new Date(
+          start + chapter.order * 60000
+        ).toUTCString()}</pubDate>`,
+        `<description>${escapeXml(
+          chapter.part ? `${chapter.part}: ${chapter.title}` : chapter.title
+        )}</description>`,
+        `<enclosure url="${escapeXml(episode.url)}" length="${
+          episode.length
+        }" type="${episode.type}"/>`,
+        `<itunes:episode>${chapter.order}</itunes:episode>`,
+        `<itunes:episodeType>full</itunes:episodeType>`,
+      ];
+      if (episode.duration !== null) {
+        lines.push(
+          `<itunes:duration>${formatDuration(
+            episode.duration
+          )}</itunes:duration>`
+        );
+      }
+      return `    <item>\n${lines
+        .map((l) => `      ${l}`)
+        .join("\n")}\n    </item>`;
+    });
+
+    const channel = [
+      `<title>${escapeXml(metadata.title)}</title>`,
+      `<link>${escapeXml(this.baseUrl)}</link>`,
+      `<atom:link href="${escapeXml(
+        feedUrl
+      )}" rel="self" type="application/rss+xml"/>`,
+      `<description>${escapeXml(description)}</description>`,
+      `<language>${escapeXml(metadata.language || "en")}</language>`,
+      `<lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+      `<itunes:author>${escapeXml(author)}</itunes:author>`,
+      `<itunes:summary>${escapeXml(description)}</itunes:summary>`,
+      `<itunes:type>serial</itunes:type>`,
+      `<itunes:explicit>false</itunes:explicit>`,
+      `<itunes:category text="Arts"><itunes:category text="Books"/></itunes:category>`,
+    ];
+    if (metadata.rights) {
+      channel.push(`<copyright>${escapeXml(metadata.rights)}</copyright>`);
+    }
+    if (coverUrl) {
+      channel.push(
+        `<itunes:image href="${escapeXml(coverUrl)}"/>`,
+        `<image><url>${escapeXml(coverUrl)}</url><title>${escapeXml(
+          metadata.title
+        )}</title><link>${escapeXml(this.baseUrl)}</link></image>`
+      );
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+${channel.map((line) => `    ${line}`).join("\n")}
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("podcast-feed")
+  .description("Write a podcast RSS feed for a book's chapter audio")
+  .version("1.0.0")
+  .argument("<book-directory>", "Path to the book directory")
+  .option(
+    "-p, --provider <provider>",
+    "TTS provider whose audio to publish (default: every provider with audio)"
+  )
+  .option(
+    "-b, --base-url <url>",
+    "URL the book directory is published at (default: npm run serve on port 3000)"
+  )
+  .action(async (bookDir: string, options: any) => {
+    try {
+      const providers: TTSProvider[] = options.provider
+        ? [options.provider]
+        : await listAudioProviders(bookDir);
+      if (providers.length === 0) {
+        throw new Error(`No chapter audio found in ${bookDir}`);
+      }
+
+      for (const provider of providers) {
+        const feed = new PodcastFeed(bookDir, provider, {
+          baseUrl: options.baseUrl,
+        });
+        const episodes = await feed.write();
+        console.log(
+          chalk.green(
+            `✅ ${provider}: ${episodes} episode${
+              episodes === 1 ? "" : "s"
+            } → ${path.relative(process.cwd(), feed.feedPath)}`
+          )
+        );
+        console.log(
+          chalk.gray(
+            `   Subscribe at ${joinUrl(
+              feed.baseUrl,
+              path.relative(path.resolve(bookDir), feed.feedPath)
+            )}`
+          )
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { PodcastFeed, FeedOptions };
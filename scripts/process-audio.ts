@@ -0,0 +1,147 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import { listAudioProviders, listChapterAudio } from "./audio-files";
+import {
+  analyzeAudio,
+  describeLoudness,
+  describeProcessing,
+  isProcessed,
+  processAudio,
+  recordProcessed,
+} from "./audio-processing";
+import {
+  chapterAudioTags,
+  generatedByComment,
+  writeAudioTags,
+} from "./audio-tags";
+
+interface ProcessAudioCliOptions {
+  provider?: TTSProvider;
+  format?: string;
+  analyze?: boolean;
+  model?: string;
+  voice?: string;
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("process-audio")
+  .description(
+    "Normalize loudness, trim silence and fade existing chapter audio"
+  )
+  .version("1.0.0")
+  .argument("<book-directory>", "Path to the book directory")
+  .option(
+    "-p, --provider <provider>",
+    "TTS provider whose audio to process (default: every provider with audio)"
+  )
+  .option(
+    "-f, --format <format>",
+    "Format the audio was generated in, as passed to chapter-audio --format (default: the provider's)"
+  )
+  .option("-a, --analyze", "Only report each chapter's loudness")
+  .option("-m, --model <model>", "Model the audio was generated with")
+  .option("-v, --voice <voice>", "Voice the audio was generated with")
+  .action(async (bookDir: string, options: ProcessAudioCliOptions) => {
+    try {
+      const metadataPath = path.join(bookDir, "metadata.yml");
+      const tocPath = path.join(bookDir, "toc.yml");
+      if (
+        !(await fs.pathExists(metadataPath)) ||
+        !(await fs.pathExists(tocPath))
+      ) {
+        throw new Error(
+          `Book metadata or TOC not found in ${bookDir}\nRun conversion first with: npm run convert`
+        );
+      }
+      const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+      const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+      metadata.totalChapters = metadata.totalChapters || toc.chapters.length;
+
+      const settings = ConfigManager.getGlobalSettings().audio_processing;
+      const providers: TTSProvider[] = options.provider
+        ? [options.provider]
+        : await listAudioProviders(bookDir);
+      for (const provider of providers) {
+        const audioDir = ConfigManager.getAudioOutputDir(bookDir, provider);
+        const audio = await listChapterAudio(bookDir, provider);
+        const format = ConfigManager.resolveOutputFormat(
+          provider,
+          options.format
+        );
+        let processed = 0;
+        let skipped = 0;
+        for (const chapter of toc.chapters) {
+          const file = audio.get(chapter.order);
+          if (!file) continue;
+
+          if (options.analyze) {
+            const { loudness } = await analyzeAudio(file, settings);
+            console.log(
+              `${chalk.cyan(path.basename(file))}: ${
+                loudness ? describeLoudness(loudness) : "silent"
+              }`
+            );
+            continue;
+          }
+
+          if (path.extname(file).slice(1).toLowerCase() !== format.extension) {
+            console.warn(
+              chalk.yellow(
+                `⚠️  ${path.basename(file)}: not ${
+                  format.format
+                } audio; pass the format it was generated in with --format`
+              )
+            );
+            continue;
+          }
+          if (await isProcessed(audioDir, file)) {
+            skipped++;
+            continue;
+          }
+
+          const report = await processAudio(file, file, format, settings);
+          console.log(
+            `🔊 ${chalk.cyan(path.basename(file))}: ${describeProcessing(
+              report
+            )}`
+          );
+          // Re-encoding drops the cover art, so the tags are written again
+          await writeAudioTags(
+            file,
+            chapterAudioTags(
+              bookDir,
+              metadata,
+              chapter,
+              generatedByComment(provider, options.model, options.voice)
+            )
+          );
+          await recordProcessed(audioDir, file);
+          processed++;
+        }
+        if (!options.analyze) {
+          console.log(
+            chalk.green(
+              `✅ ${provider}: processed ${processed} file${
+                processed === 1 ? "" : "s"
+              }${skipped > 0 ? `, ${skipped} already processed` : ""}`
+            )
+          );
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
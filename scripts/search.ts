@@ -0,0 +1,445 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { stripFrontMatter } from "./front-matter";
+
+interface IndexedChapter {
+  book: string;
+  bookTitle: string;
+  order: number;
+  title: string;
+  filename: string;
+  // Change detection for incremental updates
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+// books/search-index.json. Chapter keys are "<book-slug>/<chapter-file>";
+// each term maps chapter keys to the token positions it occurs at.
+interface SearchIndexData {
+  version: number;
+  chapters: Record<string, IndexedChapter>;
+  terms: Record<string, Record<string, number[]>>;
+}
+
+// One part of a query: a word, a quoted phrase or a prefix (word*)
+interface QueryClause {
+  terms: string[];
+  prefix: boolean;
+}
+
+interface SearchResult {
+  book: string;
+  bookTitle: string;
+  chapter: number;
+  title: string;
+  file: string;
+  score: number;
+  // Text around the first match, with matches wrapped in ** **
+  snippet: string;
+  // Ready to paste: voices the matching chapter
+  command: string;
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const INDEX_VERSION = 1;
+const SNIPPET_CONTEXT = 80;
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+function normalizeTerm(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/’/g, "'");
+}
+
+// Terms are words from the books, so term and postings maps have no
+// prototype: "constructor" must not find Object.prototype.constructor
+function emptyRecord<T>(): Record<string, T> {
+  return Object.create(null);
+}
+
+// Chapter text as it is indexed and quoted: no link targets or Markdown marks
+function searchableText(markdown: string): string {
+  return stripFrontMatter(markdown)
+    .replace(/^[ \t|:-]*-{3,}[ \t|:-]*$/gm, "")
+    .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, "$1")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[\^[^\]\s]+\]:?/g, "")
+    .replace(/[*_`#>|]+/g, " ");
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  for (const match of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map((token) => token.term);
+      if (terms.length > 0) clauses.push({ terms, prefix: false });
+      continue;
+    }
+
+    const prefix = match[2].endsWith("*");
+    const terms = tokenize(match[2]).map((token) => token.term);
+    if (terms.length === 1) {
+      clauses.push({ terms, prefix });
+    } else if (terms.length > 1) {
+      // "don't-stop" and similar split into several words: treat as a phrase
+      clauses.push({ terms, prefix: false });
+    }
+  }
+  return clauses;
+}
+
+class SearchIndex {
+  private booksRoot: string;
+  private data: SearchIndexData = {
+    version: INDEX_VERSION,
+    chapters: {},
+    terms: emptyRecord(),
+  };
+
+  constructor(booksRoot: string = path.join(process.cwd(), "books")) {
+    this.booksRoot = path.resolve(booksRoot);
+  }
+
+  get indexPath(): string {
+    return path.join(this.booksRoot, "search-index.json");
+  }
+
+  /**
+   * Load the saved index and bring it up to date: chapters whose file changed
+   * are re-indexed, chapters that no longer exist are dropped
+   */
+  async update(
+    rebuild = false
+  ): Promise<{ added: number; updated: number; removed: number }> {
+    if (!(await fs.pathExists(this.booksRoot))) {
+      throw new Error(`Books directory not found: ${this.booksRoot}`);
+    }
+    if (!rebuild && (await fs.pathExists(this.indexPath))) {
+      const saved: SearchIndexData = await fs.readJson(this.indexPath);
+      if (saved.version === INDEX_VERSION) {
+        const terms = emptyRecord<Record<string, number[]>>();
+        for (const [term, postings] of Object.entries(saved.terms)) {
+          terms[term] = Object.assign(emptyRecord<number[]>(), postings);
+        }
+        this.data = { ...saved, terms };
+      }
+    }
+
+    const seen = new Set<string>();
+    const changed = new Map<
+      string,
+      { chapter: IndexedChapter; text: string }
+    >();
+    let added = 0;
+    let updated = 0;
+
+    for (const slug of (await fs.readdir(this.booksRoot)).sort()) {
+      const bookDir = path.join(this.booksRoot, slug);
+      const tocPath = path.join(bookDir, "toc.yml");
+      if (!(await fs.pathExists(tocPath))) continue;
+
+      const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+      const metadataPath = path.join(bookDir, "metadata.yml");
+      const metadata = (await fs.pathExists(metadataPath))
+        ? YAML.parse(await fs.readFile(metadataPath, "utf-8"))
+        : {};
+
+      for (const entry of toc.chapters || []) {
+        const chapterPath = path.join(
+          bookDir,
+          "content",
+          "chapters",
+          entry.filename
+        );
+        if (!(await fs.pathExists(chapterPath))) continue;
+
+        const key = `${slug}/${entry.filename}`;
+        seen.add(key);
+        const stats = await fs.stat(chapterPath);
+        const previous = this.data.chapters[key];
+        const chapter: IndexedChapter = {
+          book: slug,
+          bookTitle: metadata.title || toc.book?.title || slug,
+          order: entry.order,
+          title: entry.title,
+          filename: entry.filename,
+          mtimeMs: stats.mtimeMs,
+          size: stats.size,
+          hash: previous?.hash || "",
+        };
+
+        if (
+          previous &&
+          previous.mtimeMs === stats.mtimeMs &&
+          previous.size === stats.size
+        ) {
+          this.data.chapters[key] = { ...chapter, hash: previous.hash };
+          continue;
+        }
+
+        const markdown = await fs.readFile(chapterPath, "utf-8");
+        chapter.hash = crypto.createHash("sha1").update(markdown).digest("hex");
+        this.data.chapters[key] = chapter;
+        if (previous?.hash === chapter.hash) continue;
+
+        changed.set(key, { chapter, text: searchableText(markdown) });
+        if (previous) updated++;
+        else added++;
+      }
+    }
+
+    const removed = Object.keys(this.data.chapters).filter(
+      (key) => !seen.has(key)
+    );
+    removed.forEach((key) => delete this.data.chapters[key]);
+
+    // Drop stale postings in one pass, then add the re-indexed chapters
+    const stale = new Set([...removed, ...changed.keys()]);
+    if (stale.size > 0) {
+      for (const [term, postings] of Object.entries(this.data.terms)) {
+        for (const key of Object.keys(postings)) {
+          if (stale.has(key)) delete postings[key];
+        }
+        if (Object.keys(postings).length === 0) delete this.data.terms[term];
+      }
+    }
+    for (const [key, { text }] of changed) {
+      tokenize(text).forEach((token, position) => {
+        const postings = (this.data.terms[token.term] ||= emptyRecord());
+        (postings[key] ||= []).push(position);
+      });
+    }
+
+    await fs.writeJson(this.indexPath, this.data);
+    return { added, updated, removed: removed.length };
+  }
+
+  /**
+   * Find chapters containing every clause of the query. Words match exactly
+   * (case and accents aside), "quoted phrases" match consecutive words, and
+   * word* matches any word starting with it.
+   */
+  async search(
+    query: string,
+    options: { book?: string; limit?: number } = {}
+  ): Promise<SearchResult[]> {
+    const clauses = parseQuery(query);
+    if (clauses.length === 0) return [];
+
+    const chapterCount = Object.keys(this.data.chapters).length;
+    const scores = new Map<string, number>();
+    const matches = new Map<
+      string,
+      Array<{ position: number; length: number }>
+    >();
+
+    clauses.forEach((clause, i) => {
+      const hits = this.matchClause(clause);
+      const idf = Math.log(1 + chapterCount / Math.max(1, hits.size));
+
+      for (const key of Array.from(scores.keys())) {
+        if (!hits.has(key)) scores.delete(key);
+      }
+      for (const [key, positions] of hits) {
+        if (i > 0 && !scores.has(key)) continue;
+        if (options.book && this.data.chapters[key]?.book !== options.book) {
+          continue;
+        }
+        scores.set(key, (scores.get(key) || 0) + positions.length * idf);
+        matches.set(key, [
+          ...(matches.get(key) || []),
+          ...positions.map((position) => ({
+            position,
+            length: clause.terms.length,
+          })),
+        ]);
+      }
+    });
+
+    const ranked = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.limit ?? 20);
+
+    const results: SearchResult[] = [];
+    for (const [key, score] of ranked) {
+      const chapter = this.data.chapters[key];
+      const chapterPath = path.join(
+        this.booksRoot,
+        chapter.book,
+        "content",
+        "chapters",
+        chapter.filename
+      );
+      const text = searchableText(await fs.readFile(chapterPath, "utf-8"));
+      const bookDir = path.relative(
+        process.cwd(),
+        path.join(this.booksRoot, chapter.book)
+      );
+
+      results.push({
+        book: chapter.book,
+        bookTitle: chapter.bookTitle,
+        chapter: chapter.order,
+        title: chapter.title,
+        file: path.relative(process.cwd(), chapterPath),
+        score: Math.round(score * 100) / 100,
+        snippet: this.snippet(text, matches.get(key)!),
+        command: `npm run chapter-audio generate ${bookDir} ${chapter.order}`,
+      });
+    }
+    return results;
+  }
+
+  // Chapter key -> positions where the clause starts
+  private matchClause(clause: QueryClause): Map<string, number[]> {
+    const hits = new Map<string, number[]>();
+
+    if (clause.prefix) {
+      const stem = clause.terms[0];
+      for (const [term, postings] of Object.entries(this.data.terms)) {
+        if (!term.startsWith(stem)) continue;
+        for (const [key, positions] of Object.entries(postings)) {
+          hits.set(key, [...(hits.get(key) || []), ...positions]);
+        }
+      }
+      hits.forEach((positions) => positions.sort((a, b) => a - b));
+      return hits;
+    }
+
+    const [first, ...rest] = clause.terms;
+    for (const [key, positions] of Object.entries(
+      this.data.terms[first] || {}
+    )) {
+      const following = rest.map(
+        (term) => new Set(this.data.terms[term]?.[key] || [])
+      );
+      const starts = positions.filter((position) =>
+        following.every((set, i) => set.has(position + i + 1))
+      );
+      if (starts.length > 0) hits.set(key, starts);
+    }
+    return hits;
+  }
+
+  private snippet(
+    text: string,
+    matches: Array<{ position: number; length: number }>
+  ): string {
+    const tokens = tokenize(text);
+    const ranges = matches
+      .filter((match) => tokens[match.position])
+      .map((match) => ({
+        start: tokens[match.position].start,
+        end: tokens[Math.min(match.position + match.length, tokens.length) - 1]
+          .end,
+      }))
+      .sort((a, b) => a.start - b.start);
+    if (ranges.length === 0) return "";
+
+    let from = Math.max(0, ranges[0].start - SNIPPET_CONTEXT);
+    let to = Math.min(text.length, ranges[0].end + SNIPPET_CONTEXT);
+    // Start and end on whole words
+    while (from > 0 && /\S/.test(text[from - 1])) from--;
+    while (to < text.length && /\S/.test(text[to])) to++;
+
+    let snippet = "";
+    let cursor = from;
+    for (const range of ranges) {
+      if (range.start < cursor || range.end > to) continue;
+      snippet += `${text.slice(cursor, range.start)}**${text.slice(
+        range.start,
+        range.end
+      )}**`;
+      cursor = range.end;
+    }
+    snippet += text.slice(cursor, to);
+
+    return `${from > 0 ? "…" : ""}${snippet.replace(/\s+/g, " ").trim()}${
+      to < text.length ? "…" : ""
+    }`;
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("search")
+  .description("Full-text search across every book's chapters")
+  .version("1.0.0")
+  .argument("<query...>", 'Words, "quoted phrases" or prefixes (word*)')
+  .option("-r, --root <dir>", "Directory holding the book folders", "books")
+  .option("-b, --book <slug>", "Only search this book")
+  .option("-n, --limit <count>", "Maximum number of results", "20")
+  .option("--rebuild", "Rebuild the index from scratch")
+  .option("--json", "Print results as JSON")
+  .action(async (queryWords: string[], options: any) => {
+    try {
+      const index = new SearchIndex(options.root);
+      const { added, updated, removed } = await index.update(options.rebuild);
+      if (!options.json && added + updated + removed > 0) {
+        console.log(
+          chalk.gray(
+            `🔎 Index updated: ${added} added, ${updated} changed, ${removed} removed`
+          )
+        );
+      }
+
+      const results = await index.search(queryWords.join(" "), {
+        book: options.book,
+        limit: parseInt(options.limit),
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+      if (results.length === 0) {
+        console.log(chalk.yellow("No matches."));
+        return;
+      }
+
+      for (const result of results) {
+        console.log(
+          `${chalk.blue(result.bookTitle)} ${chalk.gray(
+            `(${result.book})`
+          )} — ${chalk.bold(`${result.chapter}. ${result.title}`)}`
+        );
+        console.log(
+          `  ${result.snippet.replace(/\*\*(.+?)\*\*/g, (_, match) =>
+            chalk.yellow.bold(match)
+          )}`
+        );
+        console.log(chalk.gray(`  ${result.command}\n`));
+      }
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { SearchIndex, SearchResult };
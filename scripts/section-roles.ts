@@ -0,0 +1,163 @@
+import { SectionRole } from "../config/types";
+
+// EPUB 3 structural semantics (epub:type) and EPUB 2 guide reference types
+const EPUB_TYPE_ROLES: Record<string, SectionRole> = {
+  cover: "cover",
+  titlepage: "title-page",
+  "title-page": "title-page",
+  halftitlepage: "title-page",
+  "copyright-page": "copyright",
+  colophon: "copyright",
+  imprint: "copyright",
+  dedication: "dedication",
+  epigraph: "epigraph",
+  toc: "toc",
+  loi: "toc",
+  lot: "toc",
+  foreword: "foreword",
+  preface: "preface",
+  introduction: "introduction",
+  prologue: "prologue",
+  part: "part",
+  chapter: "chapter",
+  epilogue: "epilogue",
+  afterword: "afterword",
+  conclusion: "afterword",
+  acknowledgments: "acknowledgements",
+  acknowledgements: "acknowledgements",
+  notes: "notes",
+  endnotes: "notes",
+  footnotes: "notes",
+  rearnotes: "notes",
+  bibliography: "bibliography",
+  glossary: "glossary",
+  appendix: "appendix",
+  index: "index",
+  contributors: "about-author",
+  "other-credits": "acknowledgements",
+};
+
+const FILENAME_PATTERNS: Array<[RegExp, SectionRole]> = [
+  [/(^|[-_])cover/, "cover"],
+  [/(^|[-_])(half-?)?title(-?page)?\d*$/, "title-page"],
+  [/copyright|colophon|imprint/, "copyright"],
+  [/dedication/, "dedication"],
+  [/epigraph/, "epigraph"],
+  [/(^|[^a-z])(toc|contents)([^a-z]|$)/, "toc"],
+  [/also.?by|other.?books|adcard/, "also-by"],
+  [/(^|[^a-z])ack(nowledg\w*|s)?([^a-z]|$)/, "acknowledgements"],
+  [/about.?(the.?)?author|author.?bio|(^|[^a-z])bio([^a-z]|$)/, "about-author"],
+  [/endnotes|(^|[^a-z])notes([^a-z]|$)/, "notes"],
+  [/bibliography|references/, "bibliography"],
+  [/glossary/, "glossary"],
+  // Calibre names every split file "index_split_NNN", so only a bare "index" counts
+  [/(^|[-_])index$/, "index"],
+];
+
+const TITLE_PATTERNS: Array<[RegExp, SectionRole]> = [
+  [/^cover$/, "cover"],
+  [/^title page$/, "title-page"],
+  [/^(copyright|colophon)/, "copyright"],
+  [/^dedication/, "dedication"],
+  [/^epigraph/, "epigraph"],
+  [/^(table of )?contents$/, "toc"],
+  [/^foreword/, "foreword"],
+  [/^preface/, "preface"],
+  [/^introduction/, "introduction"],
+  [/^prologue/, "prologue"],
+  [/^epilogue/, "epilogue"],
+  [/^(afterword|postscript)/, "afterword"],
+  [/^acknowledge?ments?/, "acknowledgements"],
+  [/^(also by|other (books|titles) by|books by)/, "also-by"],
+  [/^about the authors?/, "about-author"],
+  [/^(end)?notes$/, "notes"],
+  [/^(bibliography|references|further reading|sources)$/, "bibliography"],
+  [/^glossary/, "glossary"],
+  [/^appendix/, "appendix"],
+  [/^index$/, "index"],
+  [/^(part|book) [\w-]+$/, "part"],
+];
+
+function roleFromEpubType(types: string | undefined): SectionRole | undefined {
+  if (!types) return undefined;
+
+  for (const type of types.split(/\s+/)) {
+    const role = EPUB_TYPE_ROLES[type.toLowerCase().replace(/^.*:/, "")];
+    if (role) return role;
+  }
+  return undefined;
+}
+
+function roleFromFilename(href: string | undefined): SectionRole | undefined {
+  if (!href) return undefined;
+
+  const basename = href
+    .split("#")[0]
+    .split("/")
+    .pop()!
+    .toLowerCase()
+    .replace(/\.x?html?$/, "");
+
+  for (const [pattern, role] of FILENAME_PATTERNS) {
+    if (pattern.test(basename)) return role;
+  }
+  return undefined;
+}
+
+function roleFromContent(
+  title: string,
+  markdown: string
+): SectionRole | undefined {
+  const normalizedTitle = title
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  for (const [pattern, role] of TITLE_PATTERNS) {
+    if (pattern.test(normalizedTitle)) return role;
+  }
+
+  // Short pages are classified by telltale phrases in their text
+  const text = markdown.replace(/[#*_>\[\]()!-]/g, " ").replace(/\s+/g, " ");
+  const wordCount = text.split(" ").filter(Boolean).length;
+
+  if (wordCount === 0) return undefined;
+  if (wordCount < 400) {
+    if (
+      /all rights reserved|isbn[\s:-]*[\dx]|copyright ©|© \d{4}/i.test(text)
+    ) {
+      return "copyright";
+    }
+    if (/^\s*(also by|other books by|by the same author)/i.test(text)) {
+      return "also-by";
+    }
+  }
+  if (wordCount < 30 && looksLikeDedication(normalizedTitle, markdown)) {
+    return "dedication";
+  }
+
+  return undefined;
+}
+
+// An untitled page of a few short lines opening "For ..." or "To ...", like
+// "For Anna" or "To the memory of my father"
+function looksLikeDedication(title: string, markdown: string): boolean {
+  if (!/^(chapter \d+|front matter)?$/.test(title)) return false;
+
+  const paragraphs = markdown
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[*_]/g, "").trim())
+    .filter(Boolean);
+  return (
+    paragraphs.length > 0 &&
+    paragraphs.length <= 3 &&
+    paragraphs.every(
+      (paragraph) =>
+        !paragraph.startsWith("#") && paragraph.split(/\s+/).length <= 12
+    ) &&
+    /^(For|To) (my |our |the memory of |[A-Z])/.test(paragraphs[0])
+  );
+}
+
+export { roleFromEpubType, roleFromFilename, roleFromContent };
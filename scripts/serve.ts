@@ -0,0 +1,512 @@
+import * as fs from "fs-extra";
+import * as http from "http";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { SectionRole, TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import { BookMetadata } from "./book-metadata";
+import { decodeHref } from "./epub-package";
+import { parseFrontMatter } from "./front-matter";
+import { renderMarkdown } from "./markdown-html";
+import {
+  audioMimeType,
+  listAudioProviders,
+  listChapterAudio,
+} from "./audio-files";
+
+interface Chapter {
+  id: string;
+  title: string;
+  order: number;
+  filename: string;
+  part?: string;
+  role?: SectionRole;
+}
+
+interface Book {
+  slug: string;
+  dir: string;
+  metadata: BookMetadata;
+  chapters: Chapter[];
+  // Chapters that are voiced; sections in narration.skip_roles get no audio
+  narrated: Chapter[];
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+};
+
+// Everything is inline so the pages work without a network connection
+const STYLE = `
+body { font-family: Georgia, serif; max-width: 46em; margin: 2em auto; padding: 0 1em; line-height: 1.6; color: #222; }
+a { color: #1a5fb4; }
+nav.crumbs { font-family: sans-serif; font-size: 0.9em; margin-bottom: 1.5em; }
+table { border-collapse: collapse; width: 100%; font-family: sans-serif; font-size: 0.9em; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.4em; text-align: left; vertical-align: top; }
+td.missing { color: #c01c28; }
+.muted { color: #777; }
+.cover { max-height: 14em; float: right; margin: 0 0 1em 1em; }
+audio { width: 100%; }
+.player { font-family: sans-serif; font-size: 0.9em; margin: 0.5em 0; }
+aside[role="doc-footnote"] { font-size: 0.9em; border-top: 1px solid #ddd; }
+nav.pager { display: flex; justify-content: space-between; font-family: sans-serif; margin: 2em 0; }
+`;
+
+function escapeHtml(text: unknown): string {
+  return String(text ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+class BookServer {
+  private booksRoot: string;
+
+  constructor(booksRoot: string = path.join(process.cwd(), "books")) {
+    this.booksRoot = path.resolve(booksRoot);
+  }
+
+  listen(port: number, host: string): Promise<http.Server> {
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        console.error(chalk.red("❌ Error:"), error);
+        if (!response.headersSent) {
+          this.send(response, 500, "text/plain", "Internal server error");
+        } else {
+          response.end();
+        }
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve(server));
+    });
+  }
+
+  private async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return this.send(response, 405, "text/plain", "Method not allowed");
+    }
+
+    const url = new URL(request.url || "/", "http://localhost");
+    let parts: string[];
+    try {
+      parts = url.pathname
+        .split("/")
+        .filter(Boolean)
+        .map((part) => decodeURIComponent(part));
+    } catch {
+      // A malformed percent escape is the client's mistake
+      return this.send(response, 400, "text/plain", "Bad request");
+    }
+
+    if (parts.length === 0) {
+      return this.sendHtml(response, await this.libraryPage());
+    }
+
+    const book = parts[0] === "books" ? await this.loadBook(parts[1]) : null;
+    if (!book) return this.notFound(response);
+
+    const [, , section, ...rest] = parts;
+    // Decoded segments could still hide "../" (as %2F..)
+    if (rest.some((part) => part !== path.basename(part) || part === "..")) {
+      return this.notFound(response);
+    }
+    if (!section) {
+      // Chapter and asset links on the book page are relative to the folder
+      if (!url.pathname.endsWith("/")) {
+        response.writeHead(301, { Location: `${url.pathname}/` });
+        response.end();
+        return;
+      }
+      return this.sendHtml(response, await this.bookPage(book));
+    }
+    if (section === "chapters" && rest.length === 1) {
+      const html = await this.chapterPage(book, parseInt(rest[0]));
+      return html ? this.sendHtml(response, html) : this.notFound(response);
+    }
+    // content/assets/ is the on-disk path that podcast feeds link to
+    const asset =
+      section === "assets" && rest.length === 1
+        ? rest[0]
+        : section === "content" && rest.length === 2 && rest[0] === "assets"
+        ? rest[1]
+        : null;
+    if (asset) {
+      const file = path.join(book.dir, "content", "assets", asset);
+      const type = IMAGE_TYPES[path.extname(asset).toLowerCase()];
+      return type && (await fs.pathExists(file))
+        ? this.sendFile(request, response, file, type)
+        : this.notFound(response);
+    }
+    if (section === "audio" && rest[1] === "feed.xml" && rest.length === 2) {
+      const feed = path.join(book.dir, "audio", rest[0], "feed.xml");
+      return (await fs.pathExists(feed))
+        ? this.sendFile(request, response, feed, "application/rss+xml")
+        : this.notFound(response);
+    }
+    if (section === "audio" && rest[1] === "chapters" && rest.length === 3) {
+      const audio = await listChapterAudio(book.dir, rest[0] as TTSProvider);
+      const file = Array.from(audio.values()).find(
+        (candidate) => path.basename(candidate) === rest[2]
+      );
+      return file
+        ? this.sendFile(request, response, file, audioMimeType(file))
+        : this.notFound(response);
+    }
+    if (section === "audio" && rest.length === 2) {
+      const audio = await listChapterAudio(book.dir, rest[0] as TTSProvider);
+      const file = audio.get(parseInt(rest[1]));
+      return file
+        ? this.sendFile(request, response, file, audioMimeType(file))
+        : this.notFound(response);
+    }
+
+    this.notFound(response);
+  }
+
+  // Slugs come from the URL, so only plain directory names are accepted
+  private async loadBook(slug?: string): Promise<Book | null> {
+    if (!slug || slug.startsWith(".") || /[\\/]/.test(slug)) return null;
+
+    const dir = path.join(this.booksRoot, slug);
+    const metadataPath = path.join(dir, "metadata.yml");
+    const tocPath = path.join(dir, "toc.yml");
+    if (
+      !(await fs.pathExists(metadataPath)) ||
+      !(await fs.pathExists(tocPath))
+    ) {
+      return null;
+    }
+
+    const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+    const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+    const chapters: Chapter[] = toc.chapters || [];
+    const { skip_roles } = ConfigManager.getGlobalSettings().narration;
+    const narrated = chapters.filter(
+      (chapter) => !(chapter.role && skip_roles.includes(chapter.role))
+    );
+    return { slug, dir, metadata, chapters, narrated };
+  }
+
+  private async libraryPage(): Promise<string> {
+    const rows: string[] = [];
+    const entries = (await fs.pathExists(this.booksRoot))
+      ? (await fs.readdir(this.booksRoot)).sort()
+      : [];
+
+    for (const slug of entries) {
+      const book = await this.loadBook(slug);
+      if (!book) continue;
+
+      const coverage: string[] = [];
+      for (const provider of await listAudioProviders(book.dir)) {
+        const audio = await listChapterAudio(book.dir, provider);
+        const voiced = book.narrated.filter((c) => audio.has(c.order)).length;
+        coverage.push(`${provider} ${voiced}/${book.narrated.length}`);
+      }
+
+      rows.push(`<tr>
+<td><a href="/books/${encodeURIComponent(slug)}/">${escapeHtml(
+        book.metadata.title
+      )}</a></td>
+<td>${escapeHtml(book.metadata.author)}</td>
+<td>${book.chapters.length}</td>
+<td>${
+        coverage.length > 0
+          ? escapeHtml(coverage.join(", "))
+          : '<span class="muted">none</span>'
+      }</td>
+</tr>`);
+    }
+
+    return page(
+      "Library",
+      `<h1>Library</h1>
+${
+  rows.length > 0
+    ? `<table>
+<tr><th>Title</th><th>Author</th><th>Chapters</th><th>Audio</th></tr>
+${rows.join("\n")}
+</table>`
+    : `<p class="muted">No converted books in ${escapeHtml(
+        this.booksRoot
+      )}.</p>`
+}`
+    );
+  }
+
+  private async bookPage(book: Book): Promise<string> {
+    const providers = await listAudioProviders(book.dir);
+    const audio = new Map<TTSProvider, Map<number, string>>();
+    for (const provider of providers) {
+      audio.set(provider, await listChapterAudio(book.dir, provider));
+    }
+
+    const rows = book.chapters.map((chapter) => {
+      const cells = providers.map((provider) =>
+        audio.get(provider)!.has(chapter.order)
+          ? `<td><a href="/books/${encodeURIComponent(
+              book.slug
+            )}/audio/${provider}/${chapter.order}">▶ play</a></td>`
+          : book.narrated.includes(chapter)
+          ? `<td class="missing">missing</td>`
+          : `<td class="muted">not narrated</td>`
+      );
+      return `<tr>
+<td>${chapter.order}</td>
+<td><a href="chapters/${chapter.order}">${escapeHtml(chapter.title)}</a>${
+        chapter.part
+          ? ` <span class="muted">(${escapeHtml(chapter.part)})</span>`
+          : ""
+      }</td>
+${cells.join("\n")}
+</tr>`;
+    });
+
+    const missing = providers.map((provider) => {
+      const count = book.narrated.filter(
+        (c) => !audio.get(provider)!.has(c.order)
+      ).length;
+      return `${provider}: ${count} of ${book.narrated.length} chapters missing audio`;
+    });
+
+    const { metadata } = book;
+    return page(
+      metadata.title,
+      `<nav class="crumbs"><a href="/">Library</a></nav>
+${
+  metadata.cover
+    ? `<img class="cover" src="assets/${encodeURIComponent(
+        path.basename(metadata.cover)
+      )}" alt="Cover"/>`
+    : ""
+}
+<h1>${escapeHtml(metadata.title)}</h1>
+<p>${escapeHtml(metadata.author)}${
+        metadata.series?.name
+          ? ` · ${escapeHtml(metadata.series.name)}${
+              metadata.series.index !== undefined
+                ? ` #${escapeHtml(metadata.series.index)}`
+                : ""
+            }`
+          : ""
+      }</p>
+${metadata.description ? `<p>${escapeHtml(metadata.description)}</p>` : ""}
+<p class="muted">${
+        missing.length > 0
+          ? missing.map(escapeHtml).join("<br/>")
+          : "No audio generated yet."
+      }</p>
+<table>
+<tr><th>#</th><th>Chapter</th>${providers
+        .map((provider) => `<th>${provider}</th>`)
+        .join("")}</tr>
+${rows.join("\n")}
+</table>`
+    );
+  }
+
+  private async chapterPage(book: Book, order: number): Promise<string | null> {
+    const index = book.chapters.findIndex((c) => c.order === order);
+    if (index < 0) return null;
+
+    const chapter = book.chapters[index];
+    const chapterPath = path.join(
+      book.dir,
+      "content",
+      "chapters",
+      chapter.filename
+    );
+    if (!(await fs.pathExists(chapterPath))) return null;
+
+    const { body } = parseFrontMatter(await fs.readFile(chapterPath, "utf-8"));
+    // Links to other chapter files lead to their pages
+    const markdown = body.replace(
+      /\]\(([^)\s#]+\.md)(#[^)\s]*)?\)/g,
+      (match, target) => {
+        const linked = book.chapters.find(
+          (c) => c.filename === decodeHref(target)
+        );
+        return linked ? `](${linked.order})` : match;
+      }
+    );
+
+    const players: string[] = [];
+    for (const provider of await listAudioProviders(book.dir)) {
+      const audio = await listChapterAudio(book.dir, provider);
+      players.push(
+        audio.has(order)
+          ? `<div class="player">${provider}<br/><audio controls preload="none" src="../audio/${provider}/${order}"></audio></div>`
+          : book.narrated.includes(chapter)
+          ? `<div class="player missing muted">${provider}: no audio for this chapter yet</div>`
+          : `<div class="player muted">${provider}: ${chapter.role} is not narrated</div>`
+      );
+    }
+
+    const link = (target: Chapter | undefined, label: string) =>
+      target
+        ? `<a href="${target.order}">${label}: ${escapeHtml(target.title)}</a>`
+        : "<span></span>";
+    const pager = `<nav class="pager">${link(
+      book.chapters[index - 1],
+      "← Previous"
+    )}${link(book.chapters[index + 1], "Next →")}</nav>`;
+
+    return page(
+      `${chapter.title} — ${book.metadata.title}`,
+      `<nav class="crumbs"><a href="/">Library</a> › <a href="../">${escapeHtml(
+        book.metadata.title
+      )}</a></nav>
+${players.join("\n")}
+<article>
+${renderMarkdown(markdown)}
+</article>
+${pager}`
+    );
+  }
+
+  /**
+   * Send a file, honoring a single `Range: bytes=...` request so players can
+   * seek without downloading the whole file
+   */
+  private async sendFile(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    file: string,
+    contentType: string
+  ): Promise<void> {
+    const { size } = await fs.stat(file);
+    const headers: http.OutgoingHttpHeaders = {
+      "Content-Type": contentType,
+      "Accept-Ranges": "bytes",
+    };
+
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.range || "");
+    let start = 0;
+    let end = size - 1;
+    let status = 200;
+
+    if (request.headers.range) {
+      if (!range || (!range[1] && !range[2])) {
+        response.writeHead(416, { "Content-Range": `bytes */${size}` });
+        response.end();
+        return;
+      }
+      if (range[1]) {
+        start = parseInt(range[1]);
+        if (range[2]) end = Math.min(parseInt(range[2]), size - 1);
+      } else {
+        // "bytes=-500" asks for the last 500 bytes
+        start = Math.max(0, size - parseInt(range[2]));
+      }
+      if (start >= size || start > end) {
+        response.writeHead(416, { "Content-Range": `bytes */${size}` });
+        response.end();
+        return;
+      }
+      status = 206;
+      headers["Content-Range"] = `bytes ${start}-${end}/${size}`;
+    }
+
+    headers["Content-Length"] = size === 0 ? 0 : end - start + 1;
+    response.writeHead(status, headers);
+    if (request.method === "HEAD" || size === 0) {
+      response.end();
+      return;
+    }
+    fs.createReadStream(file, { start, end }).pipe(response);
+  }
+
+  private sendHtml(response: http.ServerResponse, html: string): void {
+    this.send(response, 200, "text/html; charset=utf-8", html);
+  }
+
+  private notFound(response: http.ServerResponse): void {
+    this.send(
+      response,
+      404,
+      "text/html; charset=utf-8",
+      page("Not found", `<h1>Not found</h1><p><a href="/">Library</a></p>`)
+    );
+  }
+
+  private send(
+    response: http.ServerResponse,
+    status: number,
+    contentType: string,
+    body: string
+  ): void {
+    response.writeHead(status, {
+      "Content-Type": contentType,
+      "Content-Length": Buffer.byteLength(body),
+    });
+    response.end(body);
+  }
+}
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("serve")
+  .description("Browse the library, read chapters and play their audio")
+  .version("1.0.0")
+  .argument("[books-root]", "Directory holding the book folders", "books")
+  .option("-p, --port <port>", "Port to listen on", "3000")
+  .option(
+    "-H, --host <host>",
+    "Interface to bind (localhost only by default)",
+    "127.0.0.1"
+  )
+  .action(async (booksRoot: string, options: any) => {
+    try {
+      const server = new BookServer(booksRoot);
+      await server.listen(parseInt(options.port), options.host);
+      console.log(
+        chalk.green(
+          `📚 Serving ${
+            path.relative(process.cwd(), path.resolve(booksRoot)) || "."
+          } at http://${options.host}:${options.port}/`
+        )
+      );
+      console.log(chalk.gray("Press Ctrl+C to stop"));
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
+
+export { BookServer };
@@ -0,0 +1,91 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as YAML from "yaml";
+import chalk from "chalk";
+import { Command } from "commander";
+import { TTSProvider } from "../config/types";
+import { ConfigManager } from "../config/config-manager";
+import { listAudioProviders, listChapterAudio } from "./audio-files";
+import { isProcessed, recordProcessed } from "./audio-processing";
+import {
+  chapterAudioTags,
+  generatedByComment,
+  writeAudioTags,
+} from "./audio-tags";
+
+// CLI setup
+const program = new Command();
+
+program
+  .name("tag-audio")
+  .description("Tag existing chapter audio files from metadata.yml")
+  .version("1.0.0")
+  .argument("<book-directory>", "Path to the book directory")
+  .option(
+    "-p, --provider <provider>",
+    "TTS provider whose audio to tag (default: every provider with audio)"
+  )
+  .option("-m, --model <model>", "Model the audio was generated with")
+  .option("-v, --voice <voice>", "Voice the audio was generated with")
+  .action(async (bookDir: string, options: any) => {
+    try {
+      const metadataPath = path.join(bookDir, "metadata.yml");
+      const tocPath = path.join(bookDir, "toc.yml");
+      if (
+        !(await fs.pathExists(metadataPath)) ||
+        !(await fs.pathExists(tocPath))
+      ) {
+        throw new Error(
+          `Book metadata or TOC not found in ${bookDir}\nRun conversion first with: npm run convert`
+        );
+      }
+      const metadata = YAML.parse(await fs.readFile(metadataPath, "utf-8"));
+      const toc = YAML.parse(await fs.readFile(tocPath, "utf-8"));
+      metadata.totalChapters = metadata.totalChapters || toc.chapters.length;
+
+      const providers: TTSProvider[] = options.provider
+        ? [options.provider]
+        : await listAudioProviders(bookDir);
+      for (const provider of providers) {
+        const comment = generatedByComment(
+          provider,
+          options.model,
+          options.voice
+        );
+        const audioDir = ConfigManager.getAudioOutputDir(bookDir, provider);
+        const audio = await listChapterAudio(bookDir, provider);
+        let tagged = 0;
+        for (const chapter of toc.chapters) {
+          const file = audio.get(chapter.order);
+          if (!file) continue;
+
+          // Processed files stay marked as such with their new tags
+          const processed = await isProcessed(audioDir, file);
+          const tags = chapterAudioTags(bookDir, metadata, chapter, comment);
+          const format = await writeAudioTags(file, tags);
+          if (format) {
+            if (processed) await recordProcessed(audioDir, file);
+            tagged++;
+          } else {
+            console.warn(
+              chalk.yellow(
+                `⚠️  ${path.basename(file)}: this format cannot hold tags`
+              )
+            );
+          }
+        }
+        console.log(
+          chalk.green(
+            `✅ ${provider}: tagged ${tagged} file${tagged === 1 ? "" : "s"}`
+          )
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red("❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+if (require.main === module) {
+  program.parse();
+}
@@ -0,0 +1,227 @@
+import TurndownService from "turndown";
+
+interface TurndownRuleOptions {
+  // Poems, song lyrics and addresses keep one line per source line
+  verse: boolean;
+  // <table> becomes a GFM pipe table
+  tables: boolean;
+  // Drop-cap spans and images join the rest of their word
+  dropCaps: boolean;
+  // Upper-case text in small-caps spans is lower-cased instead of shouting
+  smallCaps: boolean;
+  // <aside> and sidebar boxes become blockquotes
+  asides: boolean;
+}
+
+const LINE_BLOCK_CLASS =
+  /(^|\s)(poem|poetry|verse|stanza|lyrics?|song|linegroup|lg|address)(\s|$)/i;
+const DROP_CAP_CLASS =
+  /(^|\s)(drop-?cap\w*|dropcaps?|initial|first-?letter|lettrine|big-?letter)(\s|$)/i;
+const SMALL_CAPS_CLASS = /(^|\s)(small-?caps?|smcap|smallcap\w*|sc)(\s|$)/i;
+const SIDEBAR_CLASS = /(^|\s)(sidebar|side-?box|boxed?|callout)(\s|$)/i;
+const BLOCK_NODE = /^(P|DIV|LI|BLOCKQUOTE|H[1-6]|TD|TH|SECTION|ARTICLE|BODY)$/;
+
+function hasClass(node: HTMLElement, pattern: RegExp): boolean {
+  return pattern.test(node.getAttribute?.("class") || "");
+}
+
+function isLineBlock(node: HTMLElement): boolean {
+  const epubType = node.getAttribute?.("epub:type") || "";
+  return (
+    node.nodeName === "ADDRESS" ||
+    hasClass(node, LINE_BLOCK_CLASS) ||
+    /z3998:(poem|verse|song|lyrics)/.test(epubType)
+  );
+}
+
+function insideLineBlock(node: HTMLElement): boolean {
+  const parent = node.parentNode as HTMLElement | null;
+  return !!parent && parent.nodeType === 1 && isLineBlock(parent);
+}
+
+function childElements(node: Node, names: string[]): HTMLElement[] {
+  return Array.from(node.childNodes).filter((child) =>
+    names.includes(child.nodeName)
+  ) as HTMLElement[];
+}
+
+// Rows of a table, looking through thead/tbody/tfoot
+function tableRows(table: Node): HTMLElement[] {
+  return childElements(table, ["THEAD", "TBODY", "TFOOT", "TR"]).flatMap(
+    (child) =>
+      child.nodeName === "TR" ? [child] : childElements(child, ["TR"])
+  );
+}
+
+// True when no text precedes the node within its paragraph
+function startsBlock(node: Node): boolean {
+  let current: Node = node;
+  while (current.parentNode) {
+    let previous = current.previousSibling;
+    while (previous && !(previous.textContent || "").trim()) {
+      previous = previous.previousSibling;
+    }
+    if (previous) return false;
+
+    current = current.parentNode;
+    if (BLOCK_NODE.test(current.nodeName)) return true;
+  }
+  return true;
+}
+
+function isSmallCaps(node: Node): boolean {
+  const element = node as HTMLElement;
+  return (
+    element.nodeType === 1 &&
+    (hasClass(element, SMALL_CAPS_CLASS) ||
+      /font-variant:\s*small-caps/i.test(element.getAttribute("style") || ""))
+  );
+}
+
+// A small-caps span opening its block or next to another small-caps span
+function inSmallCapsRun(node: Node): boolean {
+  const neighbour = (step: (node: Node) => Node | null) => {
+    let sibling = step(node);
+    while (sibling && sibling.nodeType === 3 && !sibling.textContent!.trim()) {
+      sibling = step(sibling);
+    }
+    return !!sibling && isSmallCaps(sibling);
+  };
+  return (
+    startsBlock(node) ||
+    neighbour((node) => node.previousSibling) ||
+    neighbour((node) => node.nextSibling)
+  );
+}
+
+function cellText(content: string): string {
+  return content.replace(/\n+/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+/**
+ * Register the EPUB-aware rules on a Turndown instance. Every rule is on
+ * unless its option is explicitly false.
+ */
+function addEpubRules(
+  service: TurndownService,
+  options: Partial<TurndownRuleOptions> = {}
+): void {
+  if (options.verse !== false) {
+    service.addRule("verseLine", {
+      filter: (node) =>
+        ["P", "DIV", "SPAN"].includes(node.nodeName) &&
+        insideLineBlock(node) &&
+        !isLineBlock(node),
+      replacement: (content) => `${content.trim()}  \n`,
+    });
+    // Stanzas nested in a poem are line blocks too, so they end up as
+    // paragraphs of hard-broken lines
+    service.addRule("verse", {
+      filter: (node) => isLineBlock(node),
+      replacement: (content) =>
+        `\n\n${content.replace(/ {2}\n\s*$/, "").trim()}\n\n`,
+    });
+  }
+
+  if (options.tables !== false) {
+    service.addRule("tableCaption", {
+      filter: "caption",
+      replacement: () => "",
+    });
+    service.addRule("tableSection", {
+      filter: ["thead", "tbody", "tfoot"],
+      replacement: (content) => content,
+    });
+    service.addRule("tableCell", {
+      filter: ["th", "td"],
+      replacement: (content, node) => {
+        const cells = childElements(node.parentNode!, ["TH", "TD"]);
+        const first = cells[0] === node;
+        return `${first ? "| " : " "}${cellText(content)} |`;
+      },
+    });
+    service.addRule("tableRow", {
+      filter: "tr",
+      replacement: (content, node) => {
+        let table: Node | null = node.parentNode;
+        while (table && table.nodeName !== "TABLE") table = table.parentNode;
+        const rows = table ? tableRows(table) : [];
+        if (rows[0] !== node) return `\n${content}`;
+
+        // GFM needs a header row; tables without one get an empty header
+        const columns = Math.max(
+          ...rows.map((row) => childElements(row, ["TH", "TD"]).length)
+        );
+        const separator = `| ${Array(columns).fill("---").join(" | ")} |`;
+        const isHeader =
+          node.parentNode?.nodeName === "THEAD" ||
+          childElements(node, ["TH", "TD"]).every(
+            (cell) => cell.nodeName === "TH"
+          );
+        return isHeader
+          ? `\n${content}\n${separator}`
+          : `\n|${" |".repeat(columns)}\n${separator}\n${content}`;
+      },
+    });
+    service.addRule("table", {
+      filter: "table",
+      replacement: (content, node) => {
+        const caption = childElements(node, ["CAPTION"])[0]
+          ?.textContent?.replace(/\s+/g, " ")
+          .trim();
+        const rows = content.replace(/\n+/g, "\n").trim();
+        return `\n\n${caption ? `_${caption}_\n\n` : ""}${rows}\n\n`;
+      },
+    });
+  }
+
+  if (options.dropCaps !== false) {
+    service.addRule("dropCap", {
+      filter: (node) =>
+        hasClass(node, DROP_CAP_CLASS) &&
+        (node.textContent || "").trim().length <= 3,
+      replacement: (content, node) =>
+        node.nodeName === "IMG"
+          ? (node as HTMLElement).getAttribute("alt") || ""
+          : content.trim(),
+    });
+  }
+
+  if (options.smallCaps !== false) {
+    service.addRule("smallCaps", {
+      filter: (node) => isSmallCaps(node),
+      replacement: (content, node) => {
+        if (content !== content.toUpperCase()) return content;
+        // A short word standing alone in running text, such as NASA, is a
+        // real acronym; in a lead-in run "THE" is just the first word
+        if (/^\s*[A-Z]{1,4}\s*$/.test(content) && !inSmallCapsRun(node)) {
+          return content;
+        }
+        const lower = content.toLowerCase();
+        return startsBlock(node)
+          ? lower.replace(/[a-z]/, (letter) => letter.toUpperCase())
+          : lower;
+      },
+    });
+  }
+
+  if (options.asides !== false) {
+    service.addRule("aside", {
+      filter: (node) =>
+        (node.nodeName === "ASIDE" &&
+          !/(foot|end|rear)?note/.test(node.getAttribute("epub:type") || "")) ||
+        (node.nodeName === "DIV" && hasClass(node, SIDEBAR_CLASS)),
+      replacement: (content) => {
+        const quoted = content
+          .trim()
+          .replace(/\n{3,}/g, "\n\n")
+          .split("\n")
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n");
+        return `\n\n${quoted}\n\n`;
+      },
+    });
+  }
+}
+
+export { addEpubRules, TurndownRuleOptions };
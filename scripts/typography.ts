@@ -0,0 +1,170 @@
+interface TypographyOptions {
+  // Remove U+00AD soft hyphens
+  softHyphens: boolean;
+  // Rejoin words hyphenated across a line break ("hyphen-\nation")
+  lineHyphenation: boolean;
+  // Expand ligature characters (ﬁ, ﬂ, ﬀ, ...) into plain letters
+  ligatures: boolean;
+  // Turn non-breaking and other fixed-width spaces into plain spaces
+  nonBreakingSpaces: boolean;
+  // Remove zero-width spaces/joiners and BOMs (joiners are kept inside non-Latin scripts)
+  zeroWidth: boolean;
+  // Make every quote straight, or curly, or leave them alone
+  quotes: "straight" | "curly" | "keep";
+}
+
+type TypographyCounts = Record<string, number>;
+
+const LIGATURES: Record<string, string> = {
+  ﬀ: "ff",
+  ﬁ: "fi",
+  ﬂ: "fl",
+  ﬃ: "ffi",
+  ﬄ: "ffl",
+  ﬅ: "st",
+  ﬆ: "st",
+};
+
+// Code, link destinations and HTML tags pass through untouched
+const PROTECTED = /```[\s\S]*?```|`[^`\n]+`|\]\([^)]*\)|<[^>\n]+>/g;
+
+const DEFAULT_OPTIONS: TypographyOptions = {
+  softHyphens: true,
+  lineHyphenation: true,
+  ligatures: true,
+  nonBreakingSpaces: true,
+  zeroWidth: true,
+  quotes: "straight",
+};
+
+function replaceCounting(
+  text: string,
+  pattern: RegExp,
+  replacement: string | ((match: string, ...groups: string[]) => string),
+  counts: TypographyCounts,
+  label: string
+): string {
+  return text.replace(pattern, (match: string, ...rest: unknown[]) => {
+    counts[label] = (counts[label] || 0) + 1;
+    // The capture groups come before the match offset
+    const groups = rest.slice(
+      0,
+      rest.findIndex((arg) => typeof arg === "number")
+    ) as string[];
+    return typeof replacement === "string"
+      ? replacement.replace(/\$(\d)/g, (_, n) => groups[Number(n) - 1] ?? "")
+      : replacement(match, ...groups);
+  });
+}
+
+function cleanSegment(
+  text: string,
+  options: TypographyOptions,
+  counts: TypographyCounts
+): string {
+  let cleaned = text;
+
+  if (options.softHyphens) {
+    cleaned = replaceCounting(cleaned, /\u00AD/g, "", counts, "soft hyphens");
+  }
+  if (options.lineHyphenation) {
+    cleaned = replaceCounting(
+      cleaned,
+      /(\p{L})-\n(\p{Ll})/gu,
+      "$1$2",
+      counts,
+      "line-end hyphenations"
+    );
+  }
+  if (options.ligatures) {
+    cleaned = replaceCounting(
+      cleaned,
+      /[\uFB00-\uFB06]/g,
+      (match) => LIGATURES[match],
+      counts,
+      "ligatures"
+    );
+  }
+  if (options.nonBreakingSpaces) {
+    cleaned = replaceCounting(
+      cleaned,
+      /[\u00A0\u2007\u202F]|&nbsp;/g,
+      " ",
+      counts,
+      "non-breaking spaces"
+    );
+  }
+  if (options.zeroWidth) {
+    cleaned = replaceCounting(
+      cleaned,
+      /[\u200B\u2060\uFEFF]|(?<=[\p{Script=Latin}\s\p{P}]|^)[\u200C\u200D]|[\u200C\u200D](?=[\p{Script=Latin}\s\p{P}]|$)/gmu,
+      "",
+      counts,
+      "zero-width characters"
+    );
+  }
+
+  if (options.quotes === "straight") {
+    cleaned = replaceCounting(
+      cleaned,
+      /[\u2018\u2019\u201A\u201B\u2032]/g,
+      "'",
+      counts,
+      "quotes"
+    );
+    cleaned = replaceCounting(
+      cleaned,
+      /[\u201C\u201D\u201E\u201F\u2033]/g,
+      '"',
+      counts,
+      "quotes"
+    );
+  } else if (options.quotes === "curly") {
+    // A quote opens after whitespace, an opening bracket, a dash or another
+    // opening quote, so "'Hi,' she said" nests the right way round
+    const opens = (before: string) =>
+      before === "" || /[\s([{\u2014\u2013\u201C\u2018-]/.test(before);
+    let previous = "";
+    cleaned = replaceCounting(
+      cleaned,
+      /(?<=(^|[\s\S]))["']/gm,
+      (quote, before: string) => {
+        // A straight quote right before this one was the previous match
+        const mark = before === '"' || before === "'" ? previous : before;
+        const [open, close] =
+          quote === '"' ? ["\u201C", "\u201D"] : ["\u2018", "\u2019"];
+        previous = opens(mark) ? open : close;
+        return previous;
+      },
+      counts,
+      "quotes"
+    );
+  }
+
+  return cleaned;
+}
+
+/**
+ * Normalize typography in converted Markdown and count each kind of change.
+ * Code spans, link destinations and inline HTML are left as they are.
+ */
+function cleanupTypography(
+  markdown: string,
+  options: Partial<TypographyOptions> = {}
+): { text: string; counts: TypographyCounts } {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const counts: TypographyCounts = {};
+
+  let text = "";
+  let last = 0;
+  for (const match of markdown.matchAll(PROTECTED)) {
+    text += cleanSegment(markdown.slice(last, match.index), resolved, counts);
+    text += match[0];
+    last = match.index! + match[0].length;
+  }
+  text += cleanSegment(markdown.slice(last), resolved, counts);
+
+  return { text, counts };
+}
+
+export { cleanupTypography, TypographyOptions, TypographyCounts };
@@ -0,0 +1,48 @@
+import * as crypto from "crypto";
+import { BookMetadata } from "./book-metadata";
+
+function escapeXml(text: string): string {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A UUID-shaped hash, so books without an identifier keep the same one
+function stableUuid(seed: string): string {
+  const hex = crypto.createHash("sha1").update(seed).digest("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+function bookIdentifiers(
+  metadata: BookMetadata
+): Array<{ type: string; value: string }> {
+  return (
+    metadata.identifiers ||
+    (metadata.isbn ? [{ type: "isbn", value: metadata.isbn }] : [])
+  );
+}
+
+/**
+ * The book's primary identifier as a URN. Prefers a stable identifier so
+ * re-exports are recognized as the same book.
+ */
+function primaryIdentifier(metadata: BookMetadata): string {
+  const identifiers = bookIdentifiers(metadata);
+  const uuid = identifiers.find((id) => id.type === "uuid")?.value;
+  const isbn = identifiers.find((id) => id.type === "isbn")?.value;
+  return uuid
+    ? `urn:uuid:${uuid.replace(/^urn:uuid:/i, "")}`
+    : isbn
+    ? `urn:isbn:${isbn}`
+    : `urn:uuid:${stableUuid(`${metadata.title}|${metadata.author}`)}`;
+}
+
+export { escapeXml, stableUuid, bookIdentifiers, primaryIdentifier };
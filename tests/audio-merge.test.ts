@@ -0,0 +1,102 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { mergeAudioFiles, writeConcatList } from "../scripts/audio-merge";
+import { audioDuration, readWavInfo, wavHeader } from "../scripts/audio-files";
+
+const FORMAT = { channels: 1, sampleRate: 24000, bitsPerSample: 16 };
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "audio-merge-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+// A mono 16-bit chunk of `seconds`, filled with `value` so chunks can be told apart
+async function writeChunk(
+  name: string,
+  seconds: number,
+  value: number,
+  format = FORMAT
+): Promise<string> {
+  const samples = Buffer.alloc(
+    Math.round(seconds * format.sampleRate) * format.channels * 2
+  );
+  for (let i = 0; i < samples.length; i += 2) samples.writeInt16LE(value, i);
+
+  const file = path.join(dir, name);
+  await fs.writeFile(
+    file,
+    Buffer.concat([wavHeader(format, samples.length), samples])
+  );
+  return file;
+}
+
+describe("mergeAudioFiles", () => {
+  it("joins WAV chunks under one header whose duration is their sum", async () => {
+    const chunks = [
+      await writeChunk("a.wav", 1.5, 100),
+      await writeChunk("b.wav", 0.25, 200),
+      await writeChunk("c.wav", 2, 300),
+    ];
+    const output = path.join(dir, "merged.wav");
+
+    expect(await mergeAudioFiles(chunks, output)).toBe("pcm");
+
+    const buffer = await fs.readFile(output);
+    const info = readWavInfo(buffer)!;
+    expect(info).toMatchObject({ audioFormat: 1, ...FORMAT });
+    expect(info.dataOffset).toBe(44);
+    expect(info.dataLength).toBe((1.5 + 0.25 + 2) * 24000 * 2);
+    expect(buffer.readUInt32LE(4)).toBe(buffer.length - 8);
+    expect(buffer.length).toBe(44 + info.dataLength);
+
+    const durations = await Promise.all(chunks.map((c) => audioDuration(c)));
+    const total = durations.reduce((sum, d) => sum! + d!, 0)!;
+    expect(info.dataLength / info.byteRate).toBeCloseTo(total, 6);
+    expect(await audioDuration(output)).toBeCloseTo(3.75, 6);
+
+    // Samples follow each other in order, with no header in between
+    expect(buffer.readInt16LE(44)).toBe(100);
+    expect(buffer.readInt16LE(44 + 1.5 * 24000 * 2)).toBe(200);
+    expect(buffer.readInt16LE(buffer.length - 2)).toBe(300);
+  });
+
+  it("copies a single chunk as it is", async () => {
+    const chunk = await writeChunk("only.wav", 0.5, 1);
+    const output = path.join(dir, "merged.wav");
+
+    expect(await mergeAudioFiles([chunk], output)).toBe("copy");
+    expect(await fs.readFile(output)).toEqual(await fs.readFile(chunk));
+  });
+
+  it("refuses to join WAV chunks with different sample rates", async () => {
+    const chunks = [
+      await writeChunk("a.wav", 0.5, 1),
+      await writeChunk("b.wav", 0.5, 1, { ...FORMAT, sampleRate: 22050 }),
+    ];
+
+    await expect(
+      mergeAudioFiles(chunks, path.join(dir, "merged.wav"))
+    ).rejects.toThrow(/Cannot merge b\.wav \(22050Hz/);
+  });
+});
+
+describe("writeConcatList", () => {
+  it("quotes paths and escapes single quotes for the concat demuxer", async () => {
+    const listPath = path.join(dir, "list.txt");
+    await writeConcatList(listPath, [
+      path.join(dir, "chapter.mp3"),
+      path.join(dir, "it's o'clock.mp3"),
+    ]);
+
+    expect(await fs.readFile(listPath, "utf-8")).toBe(
+      `file '${dir}/chapter.mp3'\nfile '${dir}/it'\\''s o'\\''clock.mp3'\n`
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "@jest/globals";
+import { addFrontMatter, parseFrontMatter } from "../scripts/front-matter";
+
+describe("parseFrontMatter", () => {
+  it("reads the front matter the converter writes", () => {
+    const markdown = addFrontMatter(
+      { book: "mythos", id: "ch1", order: 4, title: "Chaos" },
+      "# Chaos\n\nIn the beginning."
+    );
+
+    expect(parseFrontMatter(markdown)).toEqual({
+      data: { book: "mythos", id: "ch1", order: 4, title: "Chaos" },
+      body: "# Chaos\n\nIn the beginning.",
+    });
+  });
+
+  it("leaves a body that opens with a horizontal rule alone", () => {
+    const markdown = "---\n\nThe letter read:\n\n---\n\nDear Sir,";
+
+    expect(parseFrontMatter(markdown)).toEqual({ data: {}, body: markdown });
+  });
+
+  it("leaves YAML that the converter did not write alone", () => {
+    const markdown = "---\ntitle: Notes\n---\n\nText";
+
+    expect(parseFrontMatter(markdown)).toEqual({ data: {}, body: markdown });
+  });
+
+  it("leaves a block that is not valid YAML alone", () => {
+    const markdown = "---\nbook: [unclosed\n---\n\nText";
+
+    expect(parseFrontMatter(markdown)).toEqual({ data: {}, body: markdown });
+  });
+});
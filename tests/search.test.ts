@@ -0,0 +1,48 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { SearchIndex } from "../scripts/search";
+
+let booksRoot: string;
+
+beforeEach(async () => {
+  booksRoot = await fs.mkdtemp(path.join(os.tmpdir(), "search-"));
+  const bookDir = path.join(booksRoot, "mythos");
+  await fs.outputFile(
+    path.join(bookDir, "toc.yml"),
+    "chapters:\n  - order: 1\n    title: Chaos\n    filename: 01-chaos.md\n"
+  );
+  await fs.outputFile(
+    path.join(bookDir, "content", "chapters", "01-chaos.md"),
+    "# Chaos\n\nThe constructor of the world was Chaos itself.\n"
+  );
+});
+
+afterEach(async () => {
+  await fs.remove(booksRoot);
+});
+
+describe("SearchIndex", () => {
+  it("indexes and finds words named like Object.prototype members", async () => {
+    const index = new SearchIndex(booksRoot);
+    await index.update();
+
+    const saved = await fs.readJson(index.indexPath);
+    expect(saved.terms.constructor).toEqual({ "mythos/01-chaos.md": [2] });
+
+    const results = await index.search("constructor");
+    expect(results).toHaveLength(1);
+    expect(results[0].snippet).toContain("**constructor**");
+    expect(await index.search("tostring")).toEqual([]);
+  });
+
+  it("keeps such words when the saved index is loaded again", async () => {
+    await new SearchIndex(booksRoot).update();
+
+    const index = new SearchIndex(booksRoot);
+    await index.update();
+    expect(await index.search("constructor")).toHaveLength(1);
+    expect(await index.search("hasOwnProperty")).toEqual([]);
+  });
+});
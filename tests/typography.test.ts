@@ -0,0 +1,27 @@
+import { describe, expect, it } from "@jest/globals";
+import { cleanupTypography } from "../scripts/typography";
+
+const curly = (markdown: string) =>
+  cleanupTypography(markdown, { quotes: "curly" }).text;
+
+describe("cleanupTypography curly quotes", () => {
+  it("turns simple quotes and apostrophes", () => {
+    expect(curly(`"Don't," he said.`)).toBe("“Don’t,” he said.");
+  });
+
+  it("opens a quote nested right after an opening quote", () => {
+    expect(curly(`"'Hi,' she said," he told me.`)).toBe(
+      "“‘Hi,’ she said,” he told me."
+    );
+    expect(curly(`'"Hi," she said,' he told me.`)).toBe(
+      "‘“Hi,” she said,’ he told me."
+    );
+  });
+
+  it("closes a quote right after a closing quote", () => {
+    expect(curly(`He said, "She told me 'no.'"`)).toBe(
+      "He said, “She told me ‘no.’”"
+    );
+    expect(curly(`'He said "no."'\n"Fine."`)).toBe("‘He said “no.”’\n“Fine.”");
+  });
+});